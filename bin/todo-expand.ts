@@ -4,26 +4,68 @@
  *
  * Modes:
  *  --staged      Operate on staged files
+ *  --since/--range  Operate on files changed in a git revision range
  *  [files...]    Operate on explicit files/dirs
  *  --dry-run     Do not write; print intended changes
+ *  --diff        Print a unified diff per file (implies --dry-run)
+ *  --interactive Review each proposed brief before it is applied
  *
  * Environment:
- *  OPENAI_API_KEY (required)
- *  OPENAI_MODEL (optional)
+ *  OPENAI_API_KEY (required for openai/openai-chat providers)
+ *  ANTHROPIC_API_KEY (required for the anthropic provider)
+ *  OPENAI_MODEL (optional, openai/openai-chat only)
  *
  * Permissions: run with -A or:
- *   --allow-read --allow-write --allow-env --allow-run=git --allow-net=api.openai.com
+ *   --allow-read --allow-write --allow-env --allow-run=git --allow-net=<provider host>
  */
 
 import { parseArgs } from '@std/cli/parse-args'
-import { relative } from '@std/path'
+import { join, relative, resolve } from '@std/path'
 import { exists } from '@std/fs'
 import { load as loadEnv } from '@std/dotenv'
 
 import { loadConfig, printConfig } from '../src/config.ts'
-import { discoverTargets } from '../src/targets.ts'
+import {
+  discoverTargets,
+  parseRevRange,
+  type RevRange,
+  stagedAddedLines,
+} from '../src/targets.ts'
 import { processFile } from '../src/process.ts'
+import { repoPrefix } from '../src/git.ts'
+import { colorDiff } from '../src/diff.ts'
+import { createInteractiveReviewer } from '../src/review.ts'
+import { createLimiter, runPool } from '../src/pool.ts'
+import {
+  cacheStats,
+  defaultCachePath,
+  emptyCache,
+  formatCacheStats,
+  mergeCache,
+  parseCache,
+  parseDuration,
+  pruneCache,
+  pruneOlderThan,
+  readCache,
+  writeCache,
+} from '../src/cache.ts'
 import { initProject } from '../src/init.ts'
+import { filterFindings, findRawTodos, formatFindings } from '../src/check.ts'
+import { sectionsFor } from '../src/markers.ts'
+import {
+  formatList,
+  LIST_FORMATS,
+  type ListFormat,
+  listTodos,
+} from '../src/list.ts'
+import {
+  BASELINE_FILE,
+  filterBaseline,
+  readBaseline,
+  updateBaseline,
+  writeBaseline,
+} from '../src/baseline.ts'
+import { getProvider } from '../src/providers.ts'
 import { bold, gray, green, yellow } from '../src/log.ts'
 
 // Load environment from .env and .env.local if present (explicit order)
@@ -79,32 +121,51 @@ Usage:
   todo-expand [options] [paths...]
   todo-expand --print-config
   todo-expand init [--force] [--template=<type>] [--skip-package-json]
+  todo-expand check [--staged | --since=<ref> | --range=<a..b>] [--no-baseline] [paths...]
+  todo-expand baseline [--staged | --since=<ref> | --range=<a..b>] [paths...]
+  todo-expand list [--format=table|json|csv|markdown] [paths...]
+  todo-expand cache <stats|prune|clear|export|import> [--older-than=<age>] [file]
 
 Common:
-  --staged               Operate on git-staged files
+  --staged               Operate on git-staged files (rewrites and formats the staged blob in the index)
+  --since=<ref>          Operate on files changed since the merge-base of <ref> and HEAD
+  --range=<a..b>         Operate on files changed between two refs (a...b diffs from the merge-base;
+                         an empty side means HEAD, as in git)
+  --changed-only         Expand only TODOs added/changed by the staged diff (requires --staged;
+                         the changedOnly config key is ignored without it)
   --dry-run, -n          Preview changes without writing
+  --diff                 Print a unified diff of each rewrite (implies --dry-run)
+  --interactive, -i      Accept, reject, regenerate or edit ($EDITOR) each brief before it is applied
+  --patch-out=<file>     Write all rewrites as one patch for git apply, with repo-root paths (implies --dry-run;
+                         with --staged it diffs the index, so apply it with git apply --cached)
   --include=<exts>       Comma-separated extensions to include (default: ts,tsx,js,jsx)
   --exclude=<paths>      Comma-separated path segments to exclude (default: node_modules,build,dist,.git)
+  --markers=<tags>       Comma-separated marker tags to expand (default: TODO), e.g. TODO,FIXME,HACK
   --style=<s>            Prompt style: succinct | verbose (default: succinct)
   --sections=<list>      Custom sections (comma-separated). Default: Context,Goal,Steps,Constraints,Acceptance
   --context-lines=<n>    Lines of surrounding context to include (default: 12)
   --no-cache             Disable response caching
   --no-format            Skip formatting after rewrite
-  --strict               Exit with non-zero on errors
+  --strict               Exit with non-zero on errors (always on for per-file errors with --staged)
   --print                Print rewritten comments to stdout
-  --model=<name>         Override model (default: OPENAI_MODEL or gpt-4o-mini)
-  --endpoint=<url>       OpenAI Responses API endpoint (default: https://api.openai.com/v1/responses)
+  --provider=<name>      LLM provider: openai | openai-chat | anthropic | ollama (default: openai)
+  --model=<name>         Override model (default: OPENAI_MODEL or the provider default)
+  --endpoint=<url>       Provider endpoint (default: the provider's API URL)
   --timeout=<ms>         Per-request timeout in milliseconds (default: 45000)
   --retries=<n>          Retry attempts on timeout/429/5xx (default: 2)
   --retry-backoff-ms=<n> Base backoff in ms for retries (default: 500)
   --file-timeout=<ms>    Abort processing a file after this many ms (default: 120000)
-  --concurrency=<n>      Concurrent LLM requests (default: 1)
+  --concurrency=<n>      Files processed in parallel / max in-flight LLM requests (default: 1)
   --help, -h             Show this help
 
 Configuration:
   --config=<path>        Use specific config file instead of automatic discovery
   --print-config         Show resolved configuration and exit
 
+Record/Replay:
+  --record=<dir>         Store each LLM request/response pair in <dir> (keyed by request hash)
+  --replay=<dir>         Serve LLM responses from <dir> without network access
+
 Init Command:
   --force                Overwrite existing files during init
   --template=<type>      Template type: base | monorepo | non-git (auto-detected if not specified)
@@ -122,29 +183,512 @@ Configuration Files (loaded in precedence order):
   5. Built-in defaults (lowest precedence)
 
 Environment:
-  OPENAI_API_KEY         Required. Your OpenAI API key
-  OPENAI_MODEL           Optional. Overrides model (e.g., gpt-4o)
+  OPENAI_API_KEY         Required for openai/openai-chat. Your OpenAI API key
+  ANTHROPIC_API_KEY      Required for anthropic. Your Anthropic API key
+  OPENAI_MODEL           Optional. Overrides model for openai/openai-chat (e.g., gpt-4o)
   TODO_EXPAND_STYLE      Optional. succinct | verbose
   TODO_EXPAND_SECTIONS   Optional. Comma-separated list
   TODO_EXPAND_DRY        Optional. Set to 1 to default to dry-run
 
 Examples:
   todo-expand --staged --dry-run
+  todo-expand --staged --diff
+  todo-expand --interactive src
+  todo-expand --patch-out=todos.patch src && git apply todos.patch
   todo-expand --staged
+  todo-expand --since=main --dry-run
+  todo-expand --range=v1.2.0..HEAD
   todo-expand --print-config
   todo-expand --config=./custom.json --staged
+  todo-expand --record=fixtures/llm src/app.ts
+  todo-expand --replay=fixtures/llm --dry-run src/app.ts
   todo-expand src/components/Game.tsx
   todo-expand init
   todo-expand init --template=monorepo --force
+  todo-expand check --staged
+  todo-expand check --since=origin/main
+  todo-expand list --format=markdown
+  todo-expand cache prune --older-than=30d
 
 Notes:
   - The tool loads .env and .env.local automatically when present.
-  - The prompt is sourced from prompts/todo_expander.prompt.md.
-  - Cache stored at .git/.todoexpand-cache.json or nearest .git directory.
+  - The prompt is sourced from promptTemplate (config), else
+    prompts/todo_expander.compact.prompt.md.
+  - Cache stored at .todoexpand-cache.json in the nearest .git directory
+    (or the working directory outside git), bounded by cacheMaxEntries and
+    cacheMaxBytes.
 `
   console.log(help)
 }
 
+/**
+ * Pick the target discovery mode from `--staged`, `--since` and `--range`.
+ * `--since <ref>` is shorthand for `--range <ref>...HEAD`.
+ * @throws Error when more than one mode flag is given.
+ */
+function targetMode(flags: {
+  staged?: boolean
+  since?: string
+  range?: string
+}): { mode: 'staged' | 'paths' | 'range'; range?: RevRange } {
+  const given = [flags.staged, flags.since, flags.range].filter(Boolean)
+  if (given.length > 1) {
+    throw new Error('Use only one of --staged, --since and --range')
+  }
+  if (flags.since) {
+    return {
+      mode: 'range',
+      range: { from: flags.since, to: 'HEAD', mergeBase: true },
+    }
+  }
+  if (flags.range) return { mode: 'range', range: parseRevRange(flags.range) }
+  return { mode: flags.staged ? 'staged' : 'paths' }
+}
+
+/**
+ * Load config and resolve check/baseline/list targets. Without `--staged`,
+ * `--since`, `--range` or paths, the current directory is scanned.
+ */
+async function resolveScan(flags: {
+  staged?: boolean
+  since?: string
+  range?: string
+  include?: string
+  exclude?: string
+  markers?: string
+  config?: string
+  _: (string | number)[]
+}) {
+  const cwd = Deno.cwd()
+  const { config: cfg, errors } = await loadConfig({
+    cwd,
+    configPath: flags.config,
+    cli: {
+      include: flags.include,
+      exclude: flags.exclude,
+      markers: flags.markers,
+    },
+  })
+  for (const error of errors) {
+    console.error(yellow(`Config Error: ${error}`))
+  }
+
+  const argPaths = flags._.map(String)
+  const targets = await discoverTargets({
+    cwd,
+    ...targetMode(flags),
+    paths: argPaths.length ? argPaths : ['.'],
+    include: cfg.include,
+    exclude: cfg.exclude,
+    maxFileKB: cfg.maxFileKB,
+  })
+  return { cwd, cfg, targets }
+}
+
+/**
+ * Resolve check/baseline targets and scan them for raw TODOs.
+ */
+async function scanRawTodos(flags: Parameters<typeof resolveScan>[0]) {
+  const { cwd, cfg, targets } = await resolveScan(flags)
+  const findings = await findRawTodos({
+    cwd,
+    files: targets,
+    comments: cfg.comments,
+    tags: cfg.markers.map((m) => m.tag),
+    sections: sectionsFor(cfg.markers, cfg.sections),
+    fromIndex: !!flags.staged,
+  })
+  return { cwd, targets, findings }
+}
+
+/**
+ * `todo-expand check`: report raw TODOs as `file:line` and exit 1 when any
+ * are found. Uses the same target discovery and detection as expansion but
+ * needs no API key. TODOs recorded in the baseline file are not reported.
+ */
+async function checkCommand(args: string[]) {
+  const checkFlags = parseArgs(args, {
+    boolean: ['staged', 'help', 'no-baseline', 'overdue'],
+    string: [
+      'since',
+      'range',
+      'include',
+      'exclude',
+      'markers',
+      'config',
+      'baseline',
+      'owner',
+    ],
+    alias: { h: 'help' },
+    default: {},
+  })
+
+  if (checkFlags.help) {
+    console.log(
+      `todo-expand check - Fail when raw (unstructured) TODOs are present
+
+Usage:
+  todo-expand check [options] [paths...]
+
+Options:
+  --staged               Check git-staged files
+  --since=<ref>          Check files changed since the merge-base of <ref> and HEAD
+  --range=<a..b>         Check files changed between two refs
+  --include=<exts>       Comma-separated extensions to include
+  --exclude=<paths>      Comma-separated path segments to exclude
+  --markers=<tags>       Comma-separated marker tags to detect (default: TODO)
+  --config=<path>        Use specific config file
+  --baseline=<path>      Baseline file (default: ${BASELINE_FILE})
+  --no-baseline          Report every raw TODO, ignoring the baseline
+  --owner=<name>         Only report TODOs annotated with this owner
+  --overdue              Only report TODOs whose due date has passed
+  --help, -h             Show this help
+
+Without --staged, --since, --range or paths, the current directory is checked.
+Owners and due dates come from annotations such as TODO(alice, 2026-12-01):.
+Raw TODOs recorded in the baseline are not reported (see: todo-expand baseline).
+Exit codes: 0 = no new raw TODOs, 1 = new raw TODOs found.
+
+Examples:
+  todo-expand check --staged
+  todo-expand check --since=origin/main
+  todo-expand check --overdue src
+  todo-expand check src lib
+`,
+    )
+    return
+  }
+
+  const scan = await scanRawTodos(checkFlags)
+  const { cwd, targets } = scan
+  const findings = filterFindings(scan.findings, {
+    owner: checkFlags.owner,
+    overdue: checkFlags.overdue,
+  })
+  const baseline = checkFlags['no-baseline']
+    ? null
+    : await readBaseline(resolve(cwd, checkFlags.baseline ?? BASELINE_FILE))
+  const { fresh, known } = baseline
+    ? filterBaseline(findings, baseline)
+    : { fresh: findings, known: [] }
+
+  const suppressed = known.length
+    ? gray(` ${known.length} baselined raw TODO(s) ignored.`)
+    : ''
+  if (!fresh.length) {
+    console.log(
+      green(`No raw TODOs found (${targets.length} file(s) checked)`) +
+        suppressed,
+    )
+    return
+  }
+
+  console.log(formatFindings(fresh))
+  console.error(
+    yellow(
+      `Found ${fresh.length} raw TODO(s). Run todo-expand to expand them.`,
+    ) + suppressed,
+  )
+  Deno.exit(1)
+}
+
+/**
+ * `todo-expand baseline`: record the current raw TODOs so `check` only fails
+ * on new ones. Re-running updates entries for the scanned files and keeps
+ * entries for files outside the scan.
+ */
+async function baselineCommand(args: string[]) {
+  const baselineFlags = parseArgs(args, {
+    boolean: ['staged', 'help'],
+    string: [
+      'since',
+      'range',
+      'include',
+      'exclude',
+      'markers',
+      'config',
+      'baseline',
+    ],
+    alias: { h: 'help' },
+    default: {},
+  })
+
+  if (baselineFlags.help) {
+    console.log(
+      `todo-expand baseline - Generate or update the raw TODO baseline
+
+Usage:
+  todo-expand baseline [options] [paths...]
+
+Options:
+  --staged               Update entries for git-staged files only
+  --since=<ref>          Update entries for files changed since the merge-base of <ref> and HEAD
+  --range=<a..b>         Update entries for files changed between two refs
+  --include=<exts>       Comma-separated extensions to include
+  --exclude=<paths>      Comma-separated path segments to exclude
+  --markers=<tags>       Comma-separated marker tags to detect (default: TODO)
+  --config=<path>        Use specific config file
+  --baseline=<path>      Baseline file (default: ${BASELINE_FILE})
+  --help, -h             Show this help
+
+Without --staged, --since, --range or paths, the current directory is scanned.
+Commit the baseline file so CI checks report only new raw TODOs.
+`,
+    )
+    return
+  }
+
+  const { cwd, targets, findings } = await scanRawTodos(baselineFlags)
+  const path = resolve(cwd, baselineFlags.baseline ?? BASELINE_FILE)
+  const previous = await readBaseline(path)
+  const next = updateBaseline(
+    previous,
+    findings,
+    targets.map((t) => relative(cwd, t)),
+  )
+  await writeBaseline(path, next)
+  console.log(
+    green(
+      `Baseline ${previous ? 'updated' : 'created'}: ${
+        relative(cwd, path)
+      } (${next.todos.length} raw TODO(s), ${targets.length} file(s) scanned)`,
+    ),
+  )
+}
+
+/**
+ * `todo-expand list`: print every TODO, raw and structured, with its
+ * metadata and a summary. Never calls the LLM.
+ */
+async function listCommand(args: string[]) {
+  const listFlags = parseArgs(args, {
+    boolean: ['staged', 'help', 'overdue'],
+    string: [
+      'since',
+      'range',
+      'include',
+      'exclude',
+      'markers',
+      'config',
+      'format',
+      'owner',
+    ],
+    alias: { h: 'help' },
+    default: { format: 'table' },
+  })
+
+  if (listFlags.help) {
+    console.log(
+      `todo-expand list - List raw and structured TODOs with their metadata
+
+Usage:
+  todo-expand list [options] [paths...]
+
+Options:
+  --format=<f>           Output format: ${
+        LIST_FORMATS.join(' | ')
+      } (default: table)
+  --staged               List TODOs in git-staged files
+  --since=<ref>          List TODOs in files changed since the merge-base of <ref> and HEAD
+  --range=<a..b>         List TODOs in files changed between two refs
+  --include=<exts>       Comma-separated extensions to include
+  --exclude=<paths>      Comma-separated path segments to exclude
+  --markers=<tags>       Comma-separated marker tags to detect (default: TODO)
+  --owner=<name>         Only list TODOs annotated with this owner
+  --overdue              Only list TODOs whose due date has passed
+  --config=<path>        Use specific config file
+  --help, -h             Show this help
+
+Without --staged, --since, --range or paths, the current directory is listed.
+
+Examples:
+  todo-expand list
+  todo-expand list --format=csv > todos.csv
+  todo-expand list --format=json --markers=TODO,FIXME src
+`,
+    )
+    return
+  }
+
+  const format = listFlags.format as ListFormat
+  if (!LIST_FORMATS.includes(format)) {
+    console.error(
+      yellow(
+        `Invalid format: ${format}. Must be one of: ${LIST_FORMATS.join(', ')}`,
+      ),
+    )
+    Deno.exit(1)
+  }
+
+  const { cwd, cfg, targets } = await resolveScan(listFlags)
+  const entries = await listTodos({
+    cwd,
+    files: targets,
+    comments: cfg.comments,
+    tags: cfg.markers.map((m) => m.tag),
+    sections: sectionsFor(cfg.markers, cfg.sections),
+    fromIndex: !!listFlags.staged,
+  })
+  console.log(
+    formatList(
+      filterFindings(entries, {
+        owner: listFlags.owner,
+        overdue: listFlags.overdue,
+      }),
+      format,
+    ),
+  )
+}
+
+/**
+ * `todo-expand cache`: inspect and manage the brief cache at `cfg.cachePath`
+ * (stats, prune, clear, export, import).
+ */
+async function cacheCommand(args: string[]) {
+  const cacheFlags = parseArgs(args, {
+    boolean: ['help'],
+    string: ['config', 'older-than'],
+    alias: { h: 'help' },
+    default: {},
+  })
+  const [action, file] = cacheFlags._.map(String)
+
+  if (cacheFlags.help || !action) {
+    console.log(
+      `todo-expand cache - Inspect and manage the brief cache
+
+Usage:
+  todo-expand cache stats
+  todo-expand cache prune [--older-than=<age>]
+  todo-expand cache clear
+  todo-expand cache export [file]
+  todo-expand cache import <file>
+
+Actions:
+  stats                  Show entry count, size, age since last use and models
+  prune                  Evict entries beyond cacheMaxEntries/cacheMaxBytes
+  clear                  Delete the cache file
+  export [file]          Write the cache as a portable JSON bundle (default: stdout)
+  import <file>          Merge a bundle into the cache ('-' reads stdin); newer entries win
+
+Options:
+  --older-than=<age>     With prune, also evict entries unused for <age> (e.g. 30d, 12h, 2w)
+  --config=<path>        Use specific config file
+  --help, -h             Show this help
+
+Examples:
+  todo-expand cache stats
+  todo-expand cache prune --older-than=30d
+  todo-expand cache export todo-cache.json
+  todo-expand cache import todo-cache.json
+`,
+    )
+    return
+  }
+
+  const cwd = Deno.cwd()
+  const { config: cfg, errors } = await loadConfig({
+    cwd,
+    configPath: cacheFlags.config,
+    cli: {},
+  })
+  for (const error of errors) {
+    console.error(yellow(`Config Error: ${error}`))
+  }
+  const path = cfg.cachePath ?? defaultCachePath(cwd)
+  const limits = {
+    maxEntries: cfg.cacheMaxEntries,
+    maxBytes: cfg.cacheMaxBytes,
+  }
+
+  switch (action) {
+    case 'stats': {
+      const stats = cacheStats(await readCache(path))
+      console.log(formatCacheStats(stats, relative(cwd, path)))
+      return
+    }
+    case 'prune': {
+      const olderThan = cacheFlags['older-than']
+      const maxAge = olderThan === undefined ? null : parseDuration(olderThan)
+      if (olderThan !== undefined && maxAge === null) {
+        console.error(
+          yellow(`Invalid --older-than: ${olderThan} (e.g. 30d, 12h, 2w)`),
+        )
+        Deno.exit(1)
+      }
+      const cache = await readCache(path)
+      const evicted = (maxAge === null ? 0 : pruneOlderThan(cache, maxAge)) +
+        pruneCache(cache, limits)
+      await writeCache(path, cache, {}, { merge: false })
+      console.log(
+        green(
+          `Pruned ${evicted} entr${evicted === 1 ? 'y' : 'ies'}; ${
+            Object.keys(cache.entries).length
+          } left`,
+        ),
+      )
+      return
+    }
+    case 'clear': {
+      try {
+        await Deno.remove(path)
+      } catch (err) {
+        if (!(err instanceof Deno.errors.NotFound)) throw err
+      }
+      console.log(green(`Cleared ${relative(cwd, path)}`))
+      return
+    }
+    case 'export': {
+      const json = JSON.stringify(await readCache(path), null, 2)
+      if (!file || file === '-') {
+        console.log(json)
+        return
+      }
+      await Deno.writeTextFile(resolve(cwd, file), json + '\n')
+      console.log(green(`Exported cache to ${file}`))
+      return
+    }
+    case 'import': {
+      if (!file) {
+        console.error(
+          yellow('cache import needs a bundle file (or - for stdin)'),
+        )
+        Deno.exit(1)
+      }
+      let bundle
+      try {
+        const text = file === '-'
+          ? await new Response(Deno.stdin.readable).text()
+          : await Deno.readTextFile(resolve(cwd, file))
+        bundle = parseCache(JSON.parse(text))
+      } catch (err) {
+        console.error(yellow(`Cannot read ${file}: ${(err as Error).message}`))
+        Deno.exit(1)
+      }
+      if (!bundle) {
+        console.error(yellow(`${file} is not a todo-expand cache bundle`))
+        Deno.exit(1)
+      }
+      const cache = await readCache(path)
+      const merged = mergeCache(cache, bundle)
+      await writeCache(path, cache, limits)
+      console.log(
+        green(
+          `Imported ${merged} entr${merged === 1 ? 'y' : 'ies'} from ${file}`,
+        ),
+      )
+      return
+    }
+    default:
+      console.error(
+        yellow(
+          `Unknown cache action: ${action}. Must be one of: stats, prune, clear, export, import`,
+        ),
+      )
+      Deno.exit(1)
+  }
+}
+
 /**
  * CLI entrypoint. Parses flags, validates env, discovers targets, and processes files.
  *
@@ -212,11 +756,34 @@ Examples:
     return
   }
 
+  if (Deno.args[0] === 'check') {
+    await checkCommand(Deno.args.slice(1))
+    return
+  }
+
+  if (Deno.args[0] === 'baseline') {
+    await baselineCommand(Deno.args.slice(1))
+    return
+  }
+
+  if (Deno.args[0] === 'list') {
+    await listCommand(Deno.args.slice(1))
+    return
+  }
+
+  if (Deno.args[0] === 'cache') {
+    await cacheCommand(Deno.args.slice(1))
+    return
+  }
+
   // Regular CLI parsing for non-init commands
   const flags = parseArgs(Deno.args, {
     boolean: [
       'staged',
+      'changed-only',
       'dry-run',
+      'diff',
+      'interactive',
       'no-cache',
       'no-format',
       'strict',
@@ -229,6 +796,7 @@ Examples:
       'exclude',
       'style',
       'sections',
+      'provider',
       'model',
       'endpoint',
       'timeout',
@@ -238,8 +806,14 @@ Examples:
       'retry-backoff-ms',
       'file-timeout',
       'config',
+      'record',
+      'replay',
+      'since',
+      'range',
+      'patch-out',
+      'markers',
     ],
-    alias: { n: 'dry-run', h: 'help' },
+    alias: { n: 'dry-run', h: 'help', i: 'interactive' },
     default: {},
   })
 
@@ -248,7 +822,17 @@ Examples:
     return
   }
 
-  const dryRun = flags['dry-run'] || Deno.env.get('TODO_EXPAND_DRY') === '1'
+  // Only the staged diff says which lines are new; elsewhere the flag would
+  // silently expand every TODO.
+  if (flags['changed-only'] && !flags.staged) {
+    console.error(yellow('--changed-only requires --staged.'))
+    Deno.exit(2)
+  }
+
+  // Diff and patch output preview the rewrite; nothing touches disk.
+  const emitPatch = flags.diff || flags['patch-out'] !== undefined
+  const dryRun = emitPatch || flags['dry-run'] ||
+    Deno.env.get('TODO_EXPAND_DRY') === '1'
   const cwd = Deno.cwd()
 
   // Load config (with new config file system)
@@ -260,6 +844,7 @@ Examples:
       exclude: flags.exclude,
       style: flags.style,
       sections: flags.sections,
+      provider: flags.provider,
       model: flags.model,
       endpoint: flags.endpoint,
       timeout: flags.timeout ? Number(flags.timeout) : undefined,
@@ -278,6 +863,10 @@ Examples:
       perFileTimeoutMs: flags['file-timeout']
         ? Number(flags['file-timeout'])
         : undefined,
+      changedOnly: flags['changed-only'] || undefined,
+      markers: flags.markers,
+      record: flags.record,
+      replay: flags.replay,
     },
   })
 
@@ -305,11 +894,13 @@ Examples:
     return
   }
 
-  const apiKey = Deno.env.get('OPENAI_API_KEY')
-  if (!apiKey) {
+  const { apiKeyEnv } = getProvider(cfg.provider)
+  const apiKey = apiKeyEnv ? Deno.env.get(apiKeyEnv) ?? '' : ''
+  // Replay serves recorded responses, so no key is needed.
+  if (apiKeyEnv && !apiKey && cfg.cassette?.mode !== 'replay') {
     console.error(
       yellow(
-        'OPENAI_API_KEY is not set. Export it before running (see Notebook Preflight).',
+        `${apiKeyEnv} is not set. Export it before running (see Notebook Preflight).`,
       ),
     )
     Deno.exit(2)
@@ -319,7 +910,7 @@ Examples:
   const argPaths = flags._.map(String)
   const targets = await discoverTargets({
     cwd,
-    mode: flags.staged ? 'staged' : 'paths',
+    ...targetMode(flags),
     paths: argPaths,
     include: cfg.include,
     exclude: cfg.exclude,
@@ -335,13 +926,55 @@ Examples:
 
   let changedCount = 0
   let todoCount = 0
+  let failedCount = 0
+
+  // Files run through a bounded worker pool; the shared limiter keeps at most
+  // `concurrency` LLM requests in flight across all workers.
+  const limit = createLimiter(cfg.concurrency)
+  // Opt-in: restrict staged runs to TODOs on lines the commit adds/changes.
+  const changedLines = flags.staged && cfg.changedOnly
+    ? await stagedAddedLines(cwd)
+    : null
+
+  const cachePath = cfg.cachePath ?? defaultCachePath(cwd)
+  const cache = cfg.cache ? await readCache(cachePath) : emptyCache()
+  // Saved after each file with TODOs so an interrupted run keeps the briefs
+  // it already paid for. writeCache merges under a file lock; the limiter
+  // just keeps this run's own saves from contending for it.
+  const saveLimit = createLimiter(1)
+  const saveCache = () =>
+    saveLimit(() =>
+      writeCache(cachePath, cache, {
+        maxEntries: cfg.cacheMaxEntries,
+        maxBytes: cfg.cacheMaxBytes,
+      })
+    )
+
+  // Review needs a terminal to prompt on; one session spans all files so
+  // rejected TODOs are not proposed again.
+  if (flags.interactive && !Deno.stdin.isTerminal()) {
+    console.error(
+      yellow('--interactive requires a terminal (stdin is not a TTY).'),
+    )
+    Deno.exit(2)
+  }
+  const reviewer = flags.interactive ? createInteractiveReviewer() : undefined
+
+  // Patches are keyed by target so the combined patch follows target order.
+  // Their paths are relative to the repository root, where `git apply`
+  // resolves them, even when running from a subdirectory.
+  const patches = new Map<string, string>()
+  const prefix = emitPatch ? await repoPrefix(cwd) : ''
 
   let processed = 0
-  for (const abs of targets) {
+  await runPool(targets, cfg.concurrency, async (abs) => {
     const rel = relative(cwd, abs)
     if (cfg.verboseLogs) {
       console.log(gray(`[start] ${rel}`))
     }
+    // Unknown until the file is processed; a failed file may still have
+    // cached some briefs.
+    let todosFound = -1
     try {
       const ok = await processFile({
         absPath: abs,
@@ -349,9 +982,23 @@ Examples:
         cfg,
         apiKey,
         dryRun,
+        limit,
+        cache,
+        fromIndex: flags.staged,
+        changedLines: changedLines
+          ? changedLines.get(abs) ?? new Set()
+          : undefined,
+        emitPatch,
+        patchPath: join(prefix, rel),
+        reviewer,
       })
+      if (ok.patch) {
+        patches.set(abs, ok.patch)
+        if (flags.diff) console.log(colorDiff(ok.patch))
+      }
       if (ok.changed) changedCount += ok.changed
       if (ok.todosFound) todoCount += ok.todosFound
+      todosFound = ok.todosFound
       processed++
       if (cfg.verboseLogs) {
         console.log(
@@ -367,12 +1014,39 @@ Examples:
     } catch (err) {
       const error = err as Error
       console.error(yellow(`[error] ${rel}: ${error?.message || error}`))
+      failedCount++
+    }
+    if (cfg.cache && todosFound !== 0) {
+      await saveCache().catch((err) =>
+        console.error(yellow(`[cache] ${(err as Error)?.message || err}`))
+      )
+    }
+  })
+
+  if (cfg.cache) await saveCache()
+
+  if (flags['patch-out'] !== undefined) {
+    const patchPath = resolve(cwd, flags['patch-out'])
+    const combined = targets.flatMap((t) => patches.get(t) ?? []).join('')
+    await Deno.writeTextFile(patchPath, combined)
+    console.log(
+      gray(`Patch for ${patches.size} file(s) written to ${patchPath}`),
+    )
+    // Staged runs diff the index blob, so the patch applies to the index.
+    if (flags.staged) {
+      console.log(gray('Apply it to the index with: git apply --cached'))
     }
   }
 
   console.log(
     green(`Done. TODOs found: ${todoCount}, files changed: ${changedCount}`),
   )
+  // A staged run is usually a pre-commit hook: a file that failed would be
+  // committed with its TODO unexpanded, so fail the hook.
+  if (failedCount && (flags.staged || cfg.strict)) {
+    console.error(yellow(`${failedCount} file(s) failed; see errors above.`))
+    Deno.exit(1)
+  }
 }
 
 if (import.meta.main) {
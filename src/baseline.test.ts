@@ -0,0 +1,62 @@
+import { assertEquals } from '@std/assert'
+import type { CheckFinding } from './check.ts'
+import {
+  filterBaseline,
+  readBaseline,
+  updateBaseline,
+  writeBaseline,
+} from './baseline.ts'
+
+const finding = (file: string, line: number, raw: string): CheckFinding => ({
+  file,
+  line,
+  text: raw.trim(),
+  raw,
+})
+
+Deno.test('baseline: ignores moved TODOs and reports new ones', () => {
+  const before = [
+    finding('a.ts', 3, '// TODO: fix'),
+    finding('a.ts', 9, '// TODO: fix'),
+    finding('b.ts', 1, '# TODO: log'),
+  ]
+  const baseline = updateBaseline(null, before, ['a.ts', 'b.ts'])
+  assertEquals(baseline.todos.map((t) => t.occurrence), [0, 1, 0])
+
+  // Lines shift and indentation changes; one duplicate and one new TODO appear.
+  const after = [
+    finding('a.ts', 10, '  // TODO: fix'),
+    finding('a.ts', 20, '// TODO: fix'),
+    finding('a.ts', 30, '// TODO: fix'),
+    finding('b.ts', 5, '# TODO: log'),
+    finding('b.ts', 6, '# TODO: new'),
+  ]
+  const { fresh, known } = filterBaseline(after, baseline)
+  assertEquals(known.length, 3)
+  assertEquals(fresh.map((f) => `${f.file}:${f.line}`), ['a.ts:30', 'b.ts:6'])
+})
+
+Deno.test('baseline: update replaces scanned files and keeps the rest', () => {
+  const baseline = updateBaseline(
+    null,
+    [finding('a.ts', 1, '// TODO: a'), finding('b.ts', 1, '// TODO: b')],
+    ['a.ts', 'b.ts'],
+  )
+  const next = updateBaseline(baseline, [], ['a.ts'])
+  assertEquals(next.todos.map((t) => t.file), ['b.ts'])
+})
+
+Deno.test({
+  name: 'baseline: read missing returns null; write/read round-trip',
+  permissions: { read: true, write: true },
+  fn: async () => {
+    const dir = await Deno.makeTempDir()
+    const path = `${dir}/.todoexpand-baseline.json`
+    assertEquals(await readBaseline(path), null)
+    const baseline = updateBaseline(null, [finding('a.ts', 1, '// TODO')], [
+      'a.ts',
+    ])
+    await writeBaseline(path, baseline)
+    assertEquals(await readBaseline(path), baseline)
+  },
+})
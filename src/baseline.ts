@@ -0,0 +1,136 @@
+/**
+ * Baseline of accepted raw TODOs so `todo-expand check` only fails on new ones.
+ */
+import type { CheckFinding } from './check.ts'
+import { cacheKey } from './hash.ts'
+
+/** Default baseline file name, resolved relative to the working directory. */
+export const BASELINE_FILE = '.todoexpand-baseline.json'
+
+/**
+ * A raw TODO recorded in the baseline.
+ */
+export type BaselineEntry = {
+  /** Path relative to the working directory. */
+  file: string
+  /** FNV cache key of the file path and normalized TODO text. */
+  fingerprint: string
+  /**
+   * Line-independent locator: index of this TODO among TODOs with the same
+   * fingerprint in the file, in file order.
+   */
+  occurrence: number
+  /** First line of the TODO, for human review of the baseline file. */
+  text: string
+}
+
+/** On-disk baseline format. */
+export type Baseline = {
+  version: 1
+  todos: BaselineEntry[]
+}
+
+/**
+ * Normalize TODO text so re-indentation and trailing spaces do not change
+ * the fingerprint.
+ */
+function normalizeRaw(raw: string): string {
+  return raw
+    .split('\n')
+    .map((l) => l.trim())
+    .join('\n')
+}
+
+/**
+ * Convert findings into baseline entries with fingerprints and locators.
+ * @param findings - Findings from `findRawTodos` (ordered by file, then line).
+ */
+export function toBaselineEntries(findings: CheckFinding[]): BaselineEntry[] {
+  const seen = new Map<string, number>()
+  return findings.map((f) => {
+    const fingerprint = cacheKey(f.file, normalizeRaw(f.raw))
+    const id = `${f.file}\0${fingerprint}`
+    const occurrence = seen.get(id) ?? 0
+    seen.set(id, occurrence + 1)
+    return { file: f.file, fingerprint, occurrence, text: f.text }
+  })
+}
+
+const entryId = (e: BaselineEntry) =>
+  `${e.file}\0${e.fingerprint}\0${e.occurrence}`
+
+/**
+ * Build an updated baseline from a scan. Entries for files that were not
+ * scanned are kept; entries for scanned files are replaced, so fixed TODOs
+ * drop out.
+ *
+ * @param previous - Existing baseline (or null when creating one).
+ * @param findings - Current findings for the scanned files.
+ * @param scannedFiles - Relative paths of every file that was scanned.
+ */
+export function updateBaseline(
+  previous: Baseline | null,
+  findings: CheckFinding[],
+  scannedFiles: string[],
+): Baseline {
+  const scanned = new Set(scannedFiles)
+  const kept = (previous?.todos ?? []).filter((e) => !scanned.has(e.file))
+  // Stable sort: file order between files, scan order within a file.
+  const todos = [...kept, ...toBaselineEntries(findings)].sort((a, b) =>
+    a.file < b.file ? -1 : a.file > b.file ? 1 : 0
+  )
+  return { version: 1, todos }
+}
+
+/**
+ * Split findings into new TODOs and ones already accepted by the baseline.
+ * @param findings - Findings from `findRawTodos`.
+ * @param baseline - Loaded baseline.
+ */
+export function filterBaseline(
+  findings: CheckFinding[],
+  baseline: Baseline,
+): { fresh: CheckFinding[]; known: CheckFinding[] } {
+  const accepted = new Set(baseline.todos.map(entryId))
+  const entries = toBaselineEntries(findings)
+  const fresh: CheckFinding[] = []
+  const known: CheckFinding[] = []
+  findings.forEach((f, i) => {
+    if (accepted.has(entryId(entries[i]))) known.push(f)
+    else fresh.push(f)
+  })
+  return { fresh, known }
+}
+
+/**
+ * Read a baseline file.
+ * @param path - Absolute path to the baseline JSON.
+ * @returns Parsed baseline, or null if the file does not exist.
+ * @throws Error when the file exists but is not a valid baseline.
+ */
+export async function readBaseline(path: string): Promise<Baseline | null> {
+  let text: string
+  try {
+    text = await Deno.readTextFile(path)
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null
+    throw error
+  }
+  const data = JSON.parse(text) as Partial<Baseline>
+  if (data.version !== 1 || !Array.isArray(data.todos)) {
+    throw new Error(`${path}: not a todo-expand baseline (version 1)`)
+  }
+  return data as Baseline
+}
+
+/**
+ * Write a baseline file with stable formatting for clean diffs.
+ * @param path - Absolute path to the baseline JSON.
+ * @param baseline - Baseline to persist.
+ */
+export async function writeBaseline(
+  path: string,
+  baseline: Baseline,
+): Promise<void> {
+  await Deno.writeTextFile(path, JSON.stringify(baseline, null, 2) + '\n')
+}
@@ -0,0 +1,46 @@
+import { assert, assertEquals } from '@std/assert'
+import { isStructuredBrief, parseBrief, uncomment } from './brief.ts'
+
+Deno.test('parseBrief: reads the header and section headings', () => {
+  const text = uncomment(
+    [
+      '/**',
+      ' * TODO(alice): Cache lookups',
+      ' * ## Context',
+      ' * Lookups hit the DB.',
+      ' * **Goal**: one query per request',
+      ' * Steps (idempotent)',
+      ' * 1) Add a cache.',
+      ' * 2) Add Steps counter logs.',
+      ' */',
+    ].join('\n'),
+    '/*',
+    '*/',
+  )
+  assertEquals(parseBrief(text, ['Context', 'Goal', 'Steps']), {
+    tag: 'TODO',
+    summary: 'Cache lookups',
+    sections: [
+      { name: 'Context', body: 'Lookups hit the DB.' },
+      { name: 'Goal', body: 'one query per request' },
+      { name: 'Steps', body: '1) Add a cache.\n2) Add Steps counter logs.' },
+    ],
+  })
+  assertEquals(parseBrief('Context: no header'), null)
+})
+
+Deno.test('isStructuredBrief: requires every section with content', () => {
+  const full = [
+    'TODO: x',
+    'Context: a',
+    'Goal: b',
+    'Steps: c',
+    'Constraints: d',
+    'Acceptance: e',
+  ]
+  assert(isStructuredBrief(full.join('\n')))
+  assert(!isStructuredBrief(full.slice(0, 4).join('\n')))
+  assert(!isStructuredBrief([...full.slice(0, 5), 'Acceptance'].join('\n')))
+  assert(!isStructuredBrief('TODO: add Steps counter, Goal and Context'))
+  assert(isStructuredBrief('FIXME: x\nBug: y\nFix: z', ['Bug', 'Fix']))
+})
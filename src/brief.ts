@@ -0,0 +1,146 @@
+/**
+ * Parser for the structured brief format that expansion produces: a tag
+ * header (`TODO: summary`) followed by the configured sections.
+ */
+import { ANNOTATION_PATTERN, escapeRegExp } from './comments.ts'
+
+/** Sections a brief has when none are configured. */
+export const DEFAULT_SECTIONS = [
+  'Context',
+  'Goal',
+  'Steps',
+  'Constraints',
+  'Acceptance',
+]
+
+/**
+ * One section of a parsed brief.
+ */
+export type BriefSection = {
+  /** Section name as configured (e.g., `Steps`). */
+  name: string
+  /** Section text without the heading; empty when the section is blank. */
+  body: string
+}
+
+/**
+ * A parsed brief.
+ */
+export type Brief = {
+  /** Tag from the header line (e.g., `TODO`, `FIXME`, `AI TASK`). */
+  tag: string
+  /** One-line summary after the tag. */
+  summary: string
+  /** Sections found, in document order. */
+  sections: BriefSection[]
+}
+
+const HEADER = new RegExp(
+  `^(AI TASK|[^\\s:([]+)${ANNOTATION_PATTERN}:[ \\t]*(\\S.*)$`,
+  'i',
+)
+
+/**
+ * Strip comment delimiters from a comment's lines: the line marker (or
+ * block opener/closer) and `*` decoration of doc comments.
+ *
+ * @param raw - Comment text as detected (`TodoMatch.raw`).
+ * @param marker - Line marker or block opener.
+ * @param close - Block closer; omitted for line comments.
+ * @returns Comment text, one trimmed line per source line.
+ */
+export function uncomment(raw: string, marker: string, close?: string) {
+  return raw
+    .split('\n')
+    .map((line, i, all) => {
+      let text = line
+      const at = text.indexOf(marker)
+      if (at !== -1 && (close === undefined || i === 0)) {
+        text = text.slice(at + marker.length)
+      }
+      if (close === undefined) return text.trim()
+      const end = i === all.length - 1 ? text.lastIndexOf(close) : -1
+      if (end !== -1) text = text.slice(0, end)
+      return text.replace(/^[ \t]*\*+(?!\/)/, '').trim()
+    })
+    .join('\n')
+}
+
+/**
+ * Parse comment text (see `uncomment`) as a brief.
+ *
+ * The first non-empty line must be a header (`TODO: summary`, optionally
+ * annotated as `TODO(alice): ...`). A section starts at a line holding just
+ * its name, optionally as a Markdown heading or in bold and with a
+ * parenthetical (`## Steps`, `**Goal**`, `Steps (idempotent)`), or at
+ * `Name: text`. Words that merely appear in the text (`add Steps counter`)
+ * do not start sections.
+ *
+ * @param text - Comment text without delimiters.
+ * @param sections - Section names to recognize (case-insensitive).
+ * @returns Parsed brief, or null when there is no header.
+ */
+export function parseBrief(
+  text: string,
+  sections: string[] = DEFAULT_SECTIONS,
+): Brief | null {
+  const names = [...sections]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|')
+  const heading = names
+    ? new RegExp(
+      `^(?:#{1,6}[ \\t]*)?(\\*\\*|__)?(${names})\\1?` +
+        `(?:[ \\t]*\\([^)]*\\))?\\1?(?:[ \\t]*:[ \\t]*(.*)|[ \\t]*)$`,
+      'i',
+    )
+    : null
+
+  // A section heading (`Context: ...`) is not a header.
+  const lines = text.split('\n').map((l) => l.trim())
+  const first = lines.findIndex(Boolean)
+  const header = first === -1 || heading?.test(lines[first])
+    ? null
+    : lines[first].match(HEADER)
+  if (!header) return null
+
+  const brief: Brief = { tag: header[1], summary: header[2], sections: [] }
+  let current: { name: string; body: string[] } | null = null
+  const flush = () => {
+    if (!current) return
+    brief.sections.push({
+      name: current.name,
+      body: current.body.join('\n').trim(),
+    })
+  }
+  for (const line of lines.slice(first + 1)) {
+    const m = heading && line.match(heading)
+    if (m) {
+      flush()
+      const name = sections.find((s) => s.toLowerCase() === m[2].toLowerCase())
+      current = { name: name ?? m[2], body: m[3] ? [m[3]] : [] }
+    } else {
+      current?.body.push(line)
+    }
+  }
+  flush()
+  return brief
+}
+
+/**
+ * Whether `text` is a complete brief: a header plus every one of `sections`
+ * with a non-empty body. Half-expanded briefs are not structured.
+ *
+ * @param text - Comment text without delimiters.
+ * @param sections - Required section names.
+ */
+export function isStructuredBrief(
+  text: string,
+  sections: string[] = DEFAULT_SECTIONS,
+): boolean {
+  const brief = parseBrief(text, sections)
+  if (!brief) return false
+  return sections.every((name) =>
+    brief.sections.some((s) => s.name === name && s.body)
+  )
+}
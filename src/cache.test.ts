@@ -1,14 +1,38 @@
-import { assertEquals } from '@std/assert'
-import { readCache, writeCache } from './cache.ts'
+import { assert, assertEquals } from '@std/assert'
+import {
+  type CacheEntry,
+  cacheStats,
+  emptyCache,
+  formatCacheStats,
+  getCached,
+  mergeCache,
+  parseCache,
+  parseDuration,
+  pruneCache,
+  pruneOlderThan,
+  readCache,
+  setCached,
+  type TodoCache,
+  writeCache,
+} from './cache.ts'
+
+const entry = (comment: string, usedAt: string): CacheEntry => ({
+  comment,
+  createdAt: usedAt,
+  usedAt,
+  model: 'gpt-4o-mini',
+  promptHash: 'abcd1234',
+  sections: ['Context', 'Goal'],
+})
 
 Deno.test({
-  name: 'cache: read missing returns empty object',
-  permissions: { read: true },
+  name: 'cache: read missing returns empty store',
+  permissions: { read: true, write: true },
   fn: async () => {
     const dir = await Deno.makeTempDir()
     const miss = `${dir}/nope/cache.json`
     const data = await readCache(miss)
-    assertEquals(data, {})
+    assertEquals(data, emptyCache())
   },
 })
 
@@ -18,9 +42,225 @@ Deno.test({
   fn: async () => {
     const dir = await Deno.makeTempDir()
     const path = `${dir}/.git/.todoexpand-cache.json`
-    const obj = { a: '1', b: 'two' }
-    await writeCache(path, obj)
+    const cache: TodoCache = {
+      version: 2,
+      entries: { a: entry('1', '2026-01-01T00:00:00.000Z') },
+    }
+    await writeCache(path, cache)
+    const read = await readCache(path)
+    assertEquals(read, cache)
+  },
+})
+
+Deno.test({
+  name: 'cache: migrates v1 maps and ignores unknown versions',
+  permissions: { read: true, write: true },
+  fn: async () => {
+    const dir = await Deno.makeTempDir()
+    const path = `${dir}/cache.json`
+    await Deno.writeTextFile(path, JSON.stringify({ a: '1', b: 'two' }))
+    const migrated = await readCache(path)
+    assertEquals(Object.keys(migrated.entries), ['a', 'b'])
+    assertEquals(migrated.entries.b.comment, 'two')
+    assertEquals(migrated.entries.b.model, '')
+
+    await Deno.writeTextFile(path, JSON.stringify({ version: 99, entries: {} }))
+    assertEquals(await readCache(path), emptyCache())
+  },
+})
+
+Deno.test('cache: get touches usedAt, set stamps both times', () => {
+  const cache = emptyCache()
+  const created = new Date('2026-01-01T00:00:00Z')
+  setCached(
+    cache,
+    'k',
+    {
+      comment: 'brief',
+      model: 'm',
+      promptHash: 'h',
+      sections: ['Goal'],
+    },
+    created,
+  )
+  assertEquals(cache.entries.k.createdAt, created.toISOString())
+  const later = new Date('2026-02-01T00:00:00Z')
+  assertEquals(getCached(cache, 'k', later)?.comment, 'brief')
+  assertEquals(cache.entries.k.usedAt, later.toISOString())
+  assertEquals(cache.entries.k.createdAt, created.toISOString())
+  assertEquals(getCached(cache, 'missing'), undefined)
+})
+
+Deno.test('cache: prune evicts least recently used entries', () => {
+  const cache: TodoCache = {
+    version: 2,
+    entries: {
+      old: entry('x', '2026-01-01T00:00:00.000Z'),
+      mid: entry('y', '2026-01-02T00:00:00.000Z'),
+      new: entry('z', '2026-01-03T00:00:00.000Z'),
+    },
+  }
+  assertEquals(pruneCache(cache, { maxEntries: 2 }), 1)
+  assertEquals(Object.keys(cache.entries).sort(), ['mid', 'new'])
+
+  const one = JSON.stringify({ new: cache.entries.new }).length
+  assertEquals(pruneCache(cache, { maxBytes: one }), 1)
+  assertEquals(Object.keys(cache.entries), ['new'])
+
+  assertEquals(pruneCache(cache, { maxEntries: 0, maxBytes: 0 }), 0)
+})
+
+Deno.test('cache: prune --older-than evicts entries unused since the cutoff', () => {
+  const cache: TodoCache = {
+    version: 2,
+    entries: {
+      stale: entry('x', '2026-01-01T00:00:00.000Z'),
+      fresh: entry('y', '2026-03-01T00:00:00.000Z'),
+      migrated: entry('z', ''),
+    },
+  }
+  const now = new Date('2026-03-10T00:00:00Z')
+  assertEquals(pruneOlderThan(cache, parseDuration('30d')!, now), 2)
+  assertEquals(Object.keys(cache.entries), ['fresh'])
+})
+
+Deno.test('cache: parseDuration accepts m, h, d and w', () => {
+  assertEquals(parseDuration('90m'), 90 * 60_000)
+  assertEquals(parseDuration('12h'), 12 * 3_600_000)
+  assertEquals(parseDuration('30d'), 30 * 86_400_000)
+  assertEquals(parseDuration('2W'), 14 * 86_400_000)
+  assertEquals(parseDuration('30'), null)
+  assertEquals(parseDuration('1y'), null)
+})
+
+Deno.test('cache: stats bucket entries by time since last use', () => {
+  const cache: TodoCache = {
+    version: 2,
+    entries: {
+      a: entry('x', '2026-03-09T12:00:00.000Z'),
+      b: entry('y', '2026-03-01T00:00:00.000Z'),
+      c: { ...entry('z', ''), model: '' },
+    },
+  }
+  const stats = cacheStats(cache, new Date('2026-03-10T00:00:00Z'))
+  assertEquals(stats.entries, 3)
+  assertEquals(stats.oldest, '2026-03-01T00:00:00.000Z')
+  assertEquals(stats.newest, '2026-03-09T12:00:00.000Z')
+  assertEquals(stats.ages.map((a) => a.count), [1, 0, 1, 0, 0, 1])
+  assertEquals(stats.ages[5].label, 'unknown')
+  assertEquals(stats.models, { 'gpt-4o-mini': 2, unknown: 1 })
+
+  const text = formatCacheStats(stats, '.git/.todoexpand-cache.json')
+  assertEquals(text.split('\n').slice(0, 3), [
+    'Cache: .git/.todoexpand-cache.json',
+    `Entries: 3 (${stats.bytes} B)`,
+    'Created: 2026-03-01 .. 2026-03-09',
+  ])
+})
+
+Deno.test('cache: import merges bundles, keeping the newer entry', () => {
+  const cache: TodoCache = {
+    version: 2,
+    entries: {
+      same: entry('mine', '2026-03-01T00:00:00.000Z'),
+      older: entry('mine', '2026-01-01T00:00:00.000Z'),
+    },
+  }
+  const bundle = parseCache(JSON.parse(JSON.stringify({
+    version: 2,
+    entries: {
+      same: entry('theirs', '2026-03-01T00:00:00.000Z'),
+      older: entry('theirs', '2026-02-01T00:00:00.000Z'),
+      added: entry('theirs', '2026-02-01T00:00:00.000Z'),
+    },
+  })))!
+  assertEquals(mergeCache(cache, bundle), 2)
+  assertEquals(cache.entries.same.comment, 'mine')
+  assertEquals(cache.entries.older.comment, 'theirs')
+  assertEquals(cache.entries.added.comment, 'theirs')
+
+  assertEquals(parseCache({ version: 2, entries: { k: { nope: 1 } } }), null)
+  assertEquals(parseCache([]), null)
+})
+
+Deno.test({
+  name: 'cache: concurrent writes merge instead of losing entries',
+  permissions: { read: true, write: true },
+  fn: async () => {
+    const dir = await Deno.makeTempDir()
+    const path = `${dir}/.git/.todoexpand-cache.json`
+    const first = await readCache(path)
+    const second = await readCache(path)
+    setCached(first, 'a', entry('1', ''))
+    setCached(second, 'b', entry('2', ''))
+    await Promise.all([writeCache(path, first), writeCache(path, second)])
     const read = await readCache(path)
-    assertEquals(read, obj)
+    assertEquals(Object.keys(read.entries).sort(), ['a', 'b'])
+    const left = [...Deno.readDirSync(`${dir}/.git`)].map((e) => e.name)
+    assertEquals(left, ['.todoexpand-cache.json'])
+  },
+})
+
+Deno.test({
+  name: 'cache: write without merge drops entries evicted in memory',
+  permissions: { read: true, write: true },
+  fn: async () => {
+    const dir = await Deno.makeTempDir()
+    const path = `${dir}/cache.json`
+    const cache = emptyCache()
+    setCached(cache, 'a', entry('1', ''))
+    await writeCache(path, cache)
+    await writeCache(path, emptyCache(), {}, { merge: false })
+    assertEquals(await readCache(path), emptyCache())
+  },
+})
+
+Deno.test({
+  name: 'cache: stale lock files are taken over',
+  permissions: { read: true, write: true },
+  fn: async () => {
+    const dir = await Deno.makeTempDir()
+    const path = `${dir}/cache.json`
+    await Deno.writeTextFile(`${path}.lock`, '12345')
+    const old = new Date(Date.now() - 60_000)
+    await Deno.utime(`${path}.lock`, old, old)
+    const cache = emptyCache()
+    setCached(cache, 'a', entry('1', ''))
+    await writeCache(path, cache)
+    assertEquals(Object.keys((await readCache(path)).entries), ['a'])
+  },
+})
+
+Deno.test({
+  name: 'cache: corrupt files are backed up, not discarded',
+  permissions: { read: true, write: true },
+  fn: async () => {
+    const dir = await Deno.makeTempDir()
+    const path = `${dir}/cache.json`
+    await Deno.writeTextFile(path, '{"version": 2, "entries": {')
+    assertEquals(await readCache(path), emptyCache())
+    const backups = [...Deno.readDirSync(dir)].map((e) => e.name)
+    assertEquals(backups.length, 1)
+    assert(backups[0].startsWith('cache.json.corrupt-'))
+    assertEquals(
+      await Deno.readTextFile(`${dir}/${backups[0]}`),
+      '{"version": 2, "entries": {',
+    )
+  },
+})
+
+Deno.test({
+  name: 'cache: writes next to paths with spaces and #',
+  permissions: { read: true, write: true },
+  fn: async () => {
+    const dir = await Deno.makeTempDir()
+    const path = `${dir}/My Projects/#1/.git/.todoexpand-cache.json`
+    const cache = emptyCache()
+    setCached(cache, 'a', entry('1', ''))
+    await writeCache(path, cache)
+    assertEquals(Object.keys((await readCache(path)).entries), ['a'])
+    assertEquals([...Deno.readDirSync(dir)].map((e) => e.name), [
+      'My Projects',
+    ])
   },
 })
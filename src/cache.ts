@@ -1,29 +1,428 @@
 /**
- * Read JSON cache from disk.
+ * On-disk store of expanded briefs, keyed by TODO (see `briefKey`). The file
+ * is versioned and bounded: least recently used entries are evicted when it
+ * exceeds the configured entry or byte limit. Writes hold an advisory lock,
+ * merge entries other runs wrote meanwhile and replace the file atomically.
+ */
+import { dirname } from '@std/path'
+import { yellow } from './log.ts'
+
+/** Current on-disk format version. */
+export const CACHE_VERSION = 2
+
+/**
+ * One cached brief and how it was produced.
+ */
+export type CacheEntry = {
+  /** Brief as written into the file. */
+  comment: string
+  /** When the brief was generated (ISO 8601). */
+  createdAt: string
+  /** When the brief was last read or written (ISO 8601); drives eviction. */
+  usedAt: string
+  /** Model that generated the brief. */
+  model: string
+  /** Hash of the prompt the brief was generated from. */
+  promptHash: string
+  /** Sections requested for the brief. */
+  sections: string[]
+}
+
+/**
+ * Cache file contents.
+ */
+export type TodoCache = {
+  version: typeof CACHE_VERSION
+  entries: Record<string, CacheEntry>
+}
+
+/**
+ * Size bounds applied when the cache is written; `0` disables a bound.
+ */
+export type CacheLimits = {
+  /** Maximum number of entries. */
+  maxEntries?: number
+  /** Maximum size of the serialized entries, in bytes. */
+  maxBytes?: number
+}
+
+/**
+ * Default cache file location, used when `cfg.cachePath` is not resolved.
+ * @param cwd - Working directory the CLI runs from.
+ * @returns Path to the JSON cache under `.git`.
+ */
+export function defaultCachePath(cwd: string = Deno.cwd()): string {
+  return `${cwd}/.git/.todoexpand-cache.json`
+}
+
+/** An empty store. */
+export function emptyCache(): TodoCache {
+  return { version: CACHE_VERSION, entries: {} }
+}
+
+/**
+ * Read the cache from disk. Version 1 files (a flat `key -> brief` map) are
+ * migrated with empty metadata. A file that is corrupt or of an unknown
+ * version is moved aside to `<path>.corrupt-<time>` with a warning.
  * @param path - Absolute path to a JSON file.
- * @returns Parsed object, or `{}` if the file does not exist or cannot be read.
+ * @returns Parsed store, or an empty one if the file is missing or unreadable.
  */
-export async function readCache(path: string): Promise<Record<string, string>> {
+export async function readCache(path: string): Promise<TodoCache> {
+  let text: string
+  try {
+    text = await Deno.readTextFile(path)
+  } catch {
+    return emptyCache()
+  }
+  let cache: TodoCache | null = null
+  try {
+    cache = parseCache(JSON.parse(text))
+  } catch {
+    // Corrupt JSON; backed up below.
+  }
+  if (cache) return cache
+  const backup = `${path}.corrupt-${
+    new Date().toISOString().replace(/[:.]/g, '-')
+  }`
   try {
-    const text = await Deno.readTextFile(path)
-    return JSON.parse(text)
+    await Deno.rename(path, backup)
+    console.error(yellow(`[cache] unreadable cache moved to ${backup}`))
   } catch {
-    return {}
+    // Another run already moved or replaced it.
+  }
+  return emptyCache()
+}
+
+/**
+ * Validate parsed cache JSON (a cache file or an exported bundle), migrating
+ * version 1 maps.
+ * @param data - Parsed JSON value.
+ * @returns Store, or null when the value is not a cache of a known version.
+ */
+export function parseCache(data: unknown): TodoCache | null {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return null
+  }
+  const record = data as Record<string, unknown>
+  if (!('version' in record)) {
+    const cache = emptyCache()
+    for (const [key, comment] of Object.entries(record)) {
+      if (typeof comment !== 'string') continue
+      cache.entries[key] = {
+        comment,
+        createdAt: '',
+        usedAt: '',
+        model: '',
+        promptHash: '',
+        sections: [],
+      }
+    }
+    return cache
+  }
+  const { version, entries } = record
+  if (version !== CACHE_VERSION) return null
+  if (typeof entries !== 'object' || entries === null) return null
+  const values = Object.values(entries as Record<string, Partial<CacheEntry>>)
+  if (
+    !values.every((e) =>
+      typeof e?.comment === 'string' && typeof e?.usedAt === 'string'
+    )
+  ) {
+    return null
+  }
+  return { version, entries: entries as Record<string, CacheEntry> }
+}
+
+/**
+ * Look up a brief and mark it as recently used.
+ * @param cache - Store from `readCache`.
+ * @param key - Cache key.
+ * @param now - Access time (default: now).
+ */
+export function getCached(
+  cache: TodoCache,
+  key: string,
+  now = new Date(),
+): CacheEntry | undefined {
+  const entry = cache.entries[key]
+  if (entry) entry.usedAt = now.toISOString()
+  return entry
+}
+
+/**
+ * Store a brief, stamping its creation and use time.
+ * @param cache - Store from `readCache`.
+ * @param key - Cache key.
+ * @param entry - Brief and the settings it was generated with.
+ * @param now - Creation time (default: now).
+ */
+export function setCached(
+  cache: TodoCache,
+  key: string,
+  entry: Omit<CacheEntry, 'createdAt' | 'usedAt'>,
+  now = new Date(),
+) {
+  const at = now.toISOString()
+  cache.entries[key] = { ...entry, createdAt: at, usedAt: at }
+}
+
+/**
+ * Evict least recently used entries until the store fits `limits`.
+ * @param cache - Store to prune in place.
+ * @param limits - Entry and byte bounds.
+ * @returns Number of evicted entries.
+ */
+export function pruneCache(cache: TodoCache, limits: CacheLimits): number {
+  const { maxEntries = 0, maxBytes = 0 } = limits
+  const encoder = new TextEncoder()
+  const sizeOf = (key: string) =>
+    encoder.encode(JSON.stringify({ [key]: cache.entries[key] })).length
+  const keys = Object.keys(cache.entries).sort((a, b) =>
+    cache.entries[a].usedAt < cache.entries[b].usedAt ? -1 : 1
+  )
+  let bytes = maxBytes ? keys.reduce((sum, k) => sum + sizeOf(k), 0) : 0
+  let evicted = 0
+  for (const key of keys) {
+    const over = (maxEntries && keys.length - evicted > maxEntries) ||
+      (maxBytes && bytes > maxBytes)
+    if (!over) break
+    if (maxBytes) bytes -= sizeOf(key)
+    delete cache.entries[key]
+    evicted++
+  }
+  return evicted
+}
+
+/**
+ * Evict entries not used within `maxAgeMs` of `now`. Entries without a
+ * recorded use (migrated from version 1) are evicted too.
+ * @param cache - Store to prune in place.
+ * @param maxAgeMs - Maximum time since last use.
+ * @param now - Reference time (default: now).
+ * @returns Number of evicted entries.
+ */
+export function pruneOlderThan(
+  cache: TodoCache,
+  maxAgeMs: number,
+  now = new Date(),
+): number {
+  const cutoff = new Date(now.getTime() - maxAgeMs).toISOString()
+  let evicted = 0
+  for (const [key, entry] of Object.entries(cache.entries)) {
+    if (entry.usedAt >= cutoff) continue
+    delete cache.entries[key]
+    evicted++
+  }
+  return evicted
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+}
+
+/**
+ * Parse a duration such as `30d`, `12h`, `2w` or `90m`.
+ * @returns Milliseconds, or null when the text is not a duration.
+ */
+export function parseDuration(text: string): number | null {
+  const m = text.trim().match(/^(\d+)\s*([mhdw])$/i)
+  return m ? Number(m[1]) * DURATION_UNITS[m[2].toLowerCase()] : null
+}
+
+/** Upper bounds (days since last use) of the `cacheStats` age buckets. */
+const AGE_BUCKETS: [label: string, maxDays: number][] = [
+  ['< 1 day', 1],
+  ['1-7 days', 7],
+  ['7-30 days', 30],
+  ['30-90 days', 90],
+  ['>= 90 days', Infinity],
+]
+
+/**
+ * Summary of a cache for `todo-expand cache stats`.
+ */
+export type CacheStats = {
+  entries: number
+  /** Size of the serialized store, in bytes. */
+  bytes: number
+  /** Oldest and newest creation time (ISO 8601), when recorded. */
+  oldest?: string
+  newest?: string
+  /** Entry count per age bucket (time since last use); empty buckets included. */
+  ages: { label: string; count: number }[]
+  /** Entries per model; migrated entries count under `unknown`. */
+  models: Record<string, number>
+}
+
+/**
+ * Count entries, size, age distribution and models of a cache.
+ * @param cache - Store from `readCache`.
+ * @param now - Reference time for ages (default: now).
+ */
+export function cacheStats(cache: TodoCache, now = new Date()): CacheStats {
+  const entries = Object.values(cache.entries)
+  const ages = AGE_BUCKETS.map(([label]) => ({ label, count: 0 }))
+  const models: Record<string, number> = {}
+  let unknown = 0
+  for (const e of entries) {
+    const model = e.model || 'unknown'
+    models[model] = (models[model] ?? 0) + 1
+    const used = Date.parse(e.usedAt)
+    if (isNaN(used)) {
+      unknown++
+      continue
+    }
+    const days = (now.getTime() - used) / 86_400_000
+    ages[AGE_BUCKETS.findIndex(([, max]) => days < max)].count++
   }
+  if (unknown) ages.push({ label: 'unknown', count: unknown })
+  const created = entries.map((e) => e.createdAt).filter(Boolean).sort()
+  return {
+    entries: entries.length,
+    bytes: new TextEncoder().encode(JSON.stringify(cache, null, 2)).length,
+    ...(created.length && {
+      oldest: created[0],
+      newest: created[created.length - 1],
+    }),
+    ages,
+    models,
+  }
+}
+
+const formatBytes = (n: number) =>
+  n < 1024
+    ? `${n} B`
+    : n < 1024 * 1024
+    ? `${(n / 1024).toFixed(1)} KiB`
+    : `${(n / 1024 / 1024).toFixed(1)} MiB`
+
+/**
+ * Render `CacheStats` for the terminal.
+ * @param stats - Stats from `cacheStats`.
+ * @param path - Cache file path to show in the first line.
+ */
+export function formatCacheStats(stats: CacheStats, path: string): string {
+  const lines = [
+    `Cache: ${path}`,
+    `Entries: ${stats.entries} (${formatBytes(stats.bytes)})`,
+  ]
+  if (stats.oldest && stats.newest) {
+    lines.push(
+      `Created: ${stats.oldest.slice(0, 10)} .. ${stats.newest.slice(0, 10)}`,
+    )
+  }
+  if (stats.entries) {
+    const width = Math.max(...stats.ages.map((a) => a.label.length))
+    lines.push(
+      'Last used:',
+      ...stats.ages.map((a) => `  ${a.label.padEnd(width)}  ${a.count}`),
+      `Models: ${
+        Object.entries(stats.models)
+          .map(([model, n]) => `${model} ${n}`)
+          .join(', ')
+      }`,
+    )
+  }
+  return lines.join('\n')
 }
 
 /**
- * Persist JSON cache to disk, ensuring parent directory exists (best-effort).
+ * Merge entries from another cache (an imported bundle, or the file on disk
+ * when writing). An existing entry is replaced only when the incoming one was
+ * created later.
+ * @param cache - Store to merge into, in place.
+ * @param incoming - Entries to add.
+ * @returns Number of entries added or replaced.
+ */
+export function mergeCache(cache: TodoCache, incoming: TodoCache): number {
+  let merged = 0
+  for (const [key, entry] of Object.entries(incoming.entries)) {
+    const current = cache.entries[key]
+    if (current && current.createdAt >= entry.createdAt) continue
+    cache.entries[key] = entry
+    merged++
+  }
+  return merged
+}
+
+/** A lock older than this is left over from a crashed run and removed. */
+const LOCK_STALE_MS = 10_000
+const LOCK_RETRY_MS = 50
+
+/**
+ * Take the advisory lock `<path>.lock`, waiting for other runs to release it.
+ * @param lock - Lock file path.
+ * @throws When the lock is held (and refreshed) for too long.
+ */
+async function acquireLock(lock: string) {
+  const deadline = Date.now() + 2 * LOCK_STALE_MS
+  while (true) {
+    try {
+      await Deno.writeTextFile(lock, String(Deno.pid), { createNew: true })
+      return
+    } catch (err) {
+      if (!(err instanceof Deno.errors.AlreadyExists)) throw err
+    }
+    const mtime = await Deno.stat(lock).then(
+      (s) => s.mtime?.getTime() ?? 0,
+      () => 0,
+    )
+    if (Date.now() - mtime > LOCK_STALE_MS) {
+      await Deno.remove(lock).catch(() => {})
+      continue
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`cache is locked by another run: ${lock}`)
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS))
+  }
+}
+
+/**
+ * Persist the cache, ensuring the parent directory exists (best-effort).
+ *
+ * Under the advisory lock `<path>.lock`, entries written to the file by other
+ * runs since it was read are merged in (see `mergeCache`), the store is
+ * pruned, and the result is written to a temporary file that replaces the
+ * cache by rename, so an interrupted write never leaves a partial file.
+ *
  * @param path - Absolute path to the JSON cache file.
- * @param data - Key-value mapping of cache entries.
+ * @param cache - Store to write; merged and pruned in place.
+ * @param limits - Bounds applied before writing (see `pruneCache`).
+ * @param merge - Merge entries from the file on disk; `false` replaces it
+ *   (e.g., after `cache prune`, so evicted entries stay evicted).
  */
-export async function writeCache(path: string, data: Record<string, string>) {
+export async function writeCache(
+  path: string,
+  cache: TodoCache,
+  limits: CacheLimits = {},
+  { merge = true }: { merge?: boolean } = {},
+) {
+  const dir = dirname(path)
   try {
-    await Deno.mkdir(new URL('./', `file://${path}`).pathname, {
-      recursive: true,
-    })
+    await Deno.mkdir(dir, { recursive: true })
   } catch {
     /* ignore */
   }
-  await Deno.writeTextFile(path, JSON.stringify(data, null, 2))
+  const lock = `${path}.lock`
+  await acquireLock(lock)
+  let tmp: string | undefined
+  try {
+    if (merge) mergeCache(cache, await readCache(path))
+    pruneCache(cache, limits)
+    tmp = await Deno.makeTempFile({
+      dir,
+      prefix: '.todoexpand-cache-',
+      suffix: '.tmp',
+    })
+    await Deno.writeTextFile(tmp, JSON.stringify(cache, null, 2))
+    await Deno.rename(tmp, path)
+    tmp = undefined
+  } finally {
+    if (tmp) await Deno.remove(tmp).catch(() => {})
+    await Deno.remove(lock).catch(() => {})
+  }
 }
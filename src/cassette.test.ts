@@ -0,0 +1,123 @@
+import { assertEquals, assertStringIncludes } from '@std/assert'
+import { loadConfig } from './config.ts'
+import { runLLM } from './prompt.ts'
+import { processFile } from './process.ts'
+import { cassetteKey } from './cassette.ts'
+
+const permissions = {
+  net: true,
+  read: true,
+  write: true,
+  env: true,
+} as const
+
+/** Fake Responses API that answers every request with `reply(body)`. */
+function fakeServer(reply: (body: Record<string, unknown>) => unknown) {
+  let calls = 0
+  const server = Deno.serve(
+    { hostname: '127.0.0.1', port: 0, onListen() {} },
+    async (req) => {
+      calls++
+      return Response.json(reply(await req.json()))
+    },
+  )
+  return {
+    url: `http://127.0.0.1:${server.addr.port}/v1/responses`,
+    calls: () => calls,
+    close: () => server.shutdown(),
+  }
+}
+
+async function cfgWith(
+  cwd: string,
+  cli: Parameters<typeof loadConfig>[0]['cli'],
+) {
+  const configPath = `${cwd}/config.json`
+  await Deno.writeTextFile(configPath, '{"cache": false, "format": false}')
+  const { config } = await loadConfig({ cwd, configPath, cli })
+  return config
+}
+
+Deno.test('cassette: key is stable and body-sensitive', async () => {
+  const a = await cassetteKey({ model: 'm', input: 'x' })
+  assertEquals(a, await cassetteKey({ model: 'm', input: 'x' }))
+  assertEquals(a.length, 64)
+  assertEquals(a === await cassetteKey({ model: 'm', input: 'y' }), false)
+})
+
+Deno.test({
+  name: 'cassette: replays recorded responses without network',
+  permissions,
+  fn: async () => {
+    const cwd = await Deno.makeTempDir()
+    const srv = fakeServer(() => ({ output_text: '// TODO: recorded' }))
+    const recordCfg = await cfgWith(cwd, {
+      endpoint: srv.url,
+      record: 'tape',
+    })
+    try {
+      const out = await runLLM({ prompt: 'p', apiKey: 'k', cfg: recordCfg })
+      assertEquals(out, '// TODO: recorded')
+    } finally {
+      await srv.close()
+    }
+    assertEquals(srv.calls(), 1)
+
+    // Server is gone; replay must answer from disk and miss cleanly.
+    const replayCfg = await cfgWith(cwd, {
+      endpoint: srv.url,
+      replay: 'tape',
+    })
+    assertEquals(replayCfg.cassette?.dir, `${cwd}/tape`)
+    assertEquals(
+      await runLLM({ prompt: 'p', apiKey: '', cfg: replayCfg }),
+      '// TODO: recorded',
+    )
+    assertEquals(
+      await runLLM({ prompt: 'other', apiKey: '', cfg: replayCfg }),
+      null,
+    )
+  },
+})
+
+Deno.test({
+  name: 'cassette: processFile pipeline is deterministic under replay',
+  permissions,
+  fn: async () => {
+    const cwd = await Deno.makeTempDir()
+    const file = `${cwd}/a.ts`
+    const source = 'const a = 1\n// TODO: validate input\nexport { a }\n'
+    const srv = fakeServer(() => ({
+      output_text: JSON.stringify({
+        todos: [{ id: 'L2', comment: '// TODO: validate input\n// Goal: x' }],
+      }),
+    }))
+    try {
+      await Deno.writeTextFile(file, source)
+      const cfg = await cfgWith(cwd, { endpoint: srv.url, record: 'tape' })
+      await processFile({
+        absPath: file,
+        relPath: 'a.ts',
+        cfg,
+        apiKey: 'k',
+        dryRun: false,
+      })
+    } finally {
+      await srv.close()
+    }
+    const recorded = await Deno.readTextFile(file)
+    assertStringIncludes(recorded, '// Goal: x')
+
+    await Deno.writeTextFile(file, source)
+    const cfg = await cfgWith(cwd, { endpoint: srv.url, replay: 'tape' })
+    const res = await processFile({
+      absPath: file,
+      relPath: 'a.ts',
+      cfg,
+      apiKey: '',
+      dryRun: false,
+    })
+    assertEquals(res, { changed: 1, todosFound: 1 })
+    assertEquals(await Deno.readTextFile(file), recorded)
+  },
+})
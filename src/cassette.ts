@@ -0,0 +1,74 @@
+/**
+ * Record/replay "cassettes" for LLM calls: each request body is hashed and
+ * stored with the provider's raw response so runs can be replayed offline.
+ */
+import { join } from '@std/path'
+
+/** Cassette mode selected via `--record <dir>` or `--replay <dir>`. */
+export type Cassette = {
+  /** `record` performs real calls and stores them; `replay` never hits the network. */
+  mode: 'record' | 'replay'
+  /** Directory holding one JSON file per recorded request. */
+  dir: string
+}
+
+/** On-disk cassette entry. */
+export type CassetteEntry = {
+  /** Provider that produced the response. */
+  provider: string
+  /** Request body as sent (kept for debugging and bug reports). */
+  request: Record<string, unknown>
+  /** Raw provider response body. */
+  response: unknown
+}
+
+/**
+ * Hash a request body into a stable cassette key.
+ * @param body - Provider request body.
+ * @returns Lowercase SHA-256 hex digest of the JSON-serialized body.
+ */
+export async function cassetteKey(
+  body: Record<string, unknown>,
+): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(body))
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Read a recorded entry.
+ * @param dir - Cassette directory.
+ * @param key - Key from `cassetteKey`.
+ * @returns Entry, or null when nothing was recorded for this request.
+ */
+export async function readCassette(
+  dir: string,
+  key: string,
+): Promise<CassetteEntry | null> {
+  try {
+    const text = await Deno.readTextFile(join(dir, `${key}.json`))
+    return JSON.parse(text) as CassetteEntry
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Store an entry, creating the cassette directory if needed.
+ * @param dir - Cassette directory.
+ * @param key - Key from `cassetteKey`.
+ * @param entry - Request/response pair to persist.
+ */
+export async function writeCassette(
+  dir: string,
+  key: string,
+  entry: CassetteEntry,
+): Promise<void> {
+  await Deno.mkdir(dir, { recursive: true })
+  await Deno.writeTextFile(
+    join(dir, `${key}.json`),
+    JSON.stringify(entry, null, 2) + '\n',
+  )
+}
@@ -0,0 +1,105 @@
+import { assertEquals } from '@std/assert'
+import { filterFindings, findRawTodos, formatFindings } from './check.ts'
+
+Deno.test({
+  name: 'findRawTodos: reports raw TODOs as file:line, skips structured ones',
+  permissions: { read: true, write: true },
+  fn: async () => {
+    const cwd = await Deno.makeTempDir()
+    await Deno.mkdir(`${cwd}/src`)
+    await Deno.writeTextFile(
+      `${cwd}/src/b.ts`,
+      ['const b = 1', '// TODO: tighten types', '/* TODO: split', '*/'].join(
+        '\n',
+      ),
+    )
+    await Deno.writeTextFile(
+      `${cwd}/src/a.py`,
+      [
+        '# TODO: add logging',
+        '# TODO: cache results',
+        '# Context: y',
+        '# Goal: g',
+        '# Steps: s',
+        '# Constraints: c',
+        '# Acceptance: a',
+      ].join('\n'),
+    )
+
+    const findings = await findRawTodos({
+      cwd,
+      files: [`${cwd}/src/b.ts`, `${cwd}/src/a.py`],
+    })
+
+    assertEquals(
+      findings.map(({ file, line, text }) => ({ file, line, text })),
+      [
+        { file: 'src/a.py', line: 1, text: '# TODO: add logging' },
+        { file: 'src/b.ts', line: 2, text: '// TODO: tighten types' },
+        { file: 'src/b.ts', line: 3, text: '/* TODO: split' },
+      ],
+    )
+    assertEquals(findings[2].raw, '/* TODO: split\n*/')
+    assertEquals(
+      formatFindings(findings).split('\n')[0],
+      'src/a.py:1: # TODO: add logging',
+    )
+  },
+})
+
+Deno.test({
+  name: 'findRawTodos: fromIndex reads the staged copy, not unstaged edits',
+  permissions: { read: true, write: true, run: ['git'] },
+  fn: async () => {
+    const cwd = await Deno.makeTempDir()
+    const git = (...args: string[]) =>
+      new Deno.Command('git', { args, cwd, stdout: 'null', stderr: 'null' })
+        .output()
+    await git('init', '-q')
+    await Deno.writeTextFile(`${cwd}/a.ts`, 'const a = 1\n// TODO: staged\n')
+    await git('add', 'a.ts')
+    await Deno.writeTextFile(
+      `${cwd}/a.ts`,
+      'const a = 1\n// TODO: staged\n// TODO: unstaged\n',
+    )
+
+    const files = [`${cwd}/a.ts`]
+    assertEquals(
+      (await findRawTodos({ cwd, files, fromIndex: true })).map((f) => f.text),
+      ['// TODO: staged'],
+    )
+    assertEquals((await findRawTodos({ cwd, files })).length, 2)
+  },
+})
+
+Deno.test({
+  name: 'findRawTodos: parses annotations for owner and overdue filters',
+  permissions: { read: true, write: true },
+  fn: async () => {
+    const cwd = await Deno.makeTempDir()
+    await Deno.writeTextFile(
+      `${cwd}/a.ts`,
+      [
+        '// TODO(alice, #12, P1): cache results',
+        '// TODO(@bob)[2026-01-15]: drop the shim',
+        '// TODO[2030-01-01]: revisit',
+      ].join('\n'),
+    )
+
+    const findings = await findRawTodos({ cwd, files: [`${cwd}/a.ts`] })
+    assertEquals(findings.map((f) => f.meta), [
+      { owner: 'alice', issue: '#12', priority: 'P1' },
+      { owner: 'bob', due: '2026-01-15' },
+      { due: '2030-01-01' },
+    ])
+    assertEquals(
+      filterFindings(findings, { owner: '@Alice' }).map((f) => f.line),
+      [1],
+    )
+    assertEquals(
+      filterFindings(findings, { overdue: true, today: '2026-06-01' })
+        .map((f) => f.line),
+      [2],
+    )
+  },
+})
@@ -0,0 +1,108 @@
+/** CI check for raw (unstructured) TODOs; never calls the LLM. */
+import { relative } from '@std/path'
+import { detectTodos } from './todos.ts'
+import { type CommentSyntax, commentSyntaxFor } from './comments.ts'
+import { isOverdue, type TodoMeta } from './metadata.ts'
+import { readIndexBlob } from './staged.ts'
+
+/**
+ * A raw TODO reported by `todo-expand check`.
+ */
+export type CheckFinding = {
+  /** Path relative to the working directory. */
+  file: string
+  /** One-based line number where the TODO starts. */
+  line: number
+  /** First line of the TODO comment, trimmed. */
+  text: string
+  /** Full raw TODO text as detected. */
+  raw: string
+  /** Owner, issue, priority and due date from the TODO's annotation. */
+  meta?: TodoMeta
+}
+
+/**
+ * Scan files for TODOs that `detectTodos` considers unstructured.
+ *
+ * @param cwd - Directory findings are reported relative to.
+ * @param files - Absolute file paths (typically from `discoverTargets`).
+ * @param comments - Per-extension comment syntax overrides (`cfg.comments`).
+ * @param tags - Marker tags to detect (default `TODO`).
+ * @param sections - Sections a complete brief needs, per tag (see
+ *   `sectionsFor`).
+ * @param fromIndex - Read each file's staged blob instead of the working
+ *   tree copy (`--staged`), so unstaged edits do not count.
+ * @returns Findings ordered by file, then line.
+ */
+export async function findRawTodos({
+  cwd,
+  files,
+  comments,
+  tags,
+  sections,
+  fromIndex = false,
+}: {
+  cwd: string
+  files: string[]
+  comments?: Record<string, CommentSyntax>
+  tags?: string[]
+  sections?: (tag: string) => string[]
+  fromIndex?: boolean
+}): Promise<CheckFinding[]> {
+  const findings: CheckFinding[] = []
+  for (const abs of files) {
+    const content = fromIndex
+      ? (await readIndexBlob(abs)).content
+      : await Deno.readTextFile(abs)
+    const { todos } = detectTodos(
+      content,
+      commentSyntaxFor(abs, comments),
+      tags,
+      sections,
+    )
+    const file = relative(cwd, abs)
+    for (const todo of [...todos].sort((a, b) => a.start - b.start)) {
+      findings.push({
+        file,
+        line: todo.start + 1,
+        text: todo.raw.split('\n')[0].trim(),
+        raw: todo.raw,
+        ...(todo.meta && { meta: todo.meta }),
+      })
+    }
+  }
+  return findings.sort((a, b) =>
+    a.file === b.file ? a.line - b.line : a.file < b.file ? -1 : 1
+  )
+}
+
+/**
+ * Keep findings (or `list` entries) matching the given metadata filters.
+ *
+ * @param owner - Only TODOs annotated with this owner (case-insensitive,
+ *   leading `@` ignored).
+ * @param overdue - Only TODOs whose due date is before `today`.
+ * @param today - Reference date as `YYYY-MM-DD` (default: current UTC date).
+ */
+export function filterFindings<T extends { meta?: TodoMeta }>(
+  findings: T[],
+  { owner, overdue = false, today }: {
+    owner?: string
+    overdue?: boolean
+    today?: string
+  },
+): T[] {
+  const wanted = owner?.replace(/^@/, '').toLowerCase()
+  return findings.filter((f) =>
+    (!wanted || f.meta?.owner?.toLowerCase() === wanted) &&
+    (!overdue || isOverdue(f.meta, today))
+  )
+}
+
+/**
+ * Render findings as `file:line: text` lines for terminal/CI logs.
+ * @param findings - Findings from `findRawTodos`.
+ */
+export function formatFindings(findings: CheckFinding[]): string {
+  return findings.map((f) => `${f.file}:${f.line}: ${f.text}`).join('\n')
+}
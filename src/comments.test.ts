@@ -0,0 +1,101 @@
+import { assert, assertEquals } from '@std/assert'
+import {
+  blockTodoPattern,
+  type CommentSyntax,
+  commentSyntaxFor,
+  DEFAULT_COMMENT_SYNTAX,
+  FALLBACK_COMMENT_SYNTAX,
+  lineTodoPattern,
+  parseCommentSyntax,
+} from './comments.ts'
+
+const custom: CommentSyntax = { line: ['%'], block: [], strings: [] }
+
+Deno.test('commentSyntaxFor: config entries override built-ins', () => {
+  assertEquals(commentSyntaxFor('src/a.py', { py: custom }), custom)
+  assertEquals(commentSyntaxFor('src/a.ts', { py: custom }).line, ['//'])
+  assertEquals(
+    commentSyntaxFor('src/A.PY', {}),
+    DEFAULT_COMMENT_SYNTAX.py,
+  )
+})
+
+Deno.test('commentSyntaxFor: a specific extension wins over the fallback', () => {
+  assertEquals(commentSyntaxFor('notes.tex'), FALLBACK_COMMENT_SYNTAX)
+  assertEquals(commentSyntaxFor('Makefile'), FALLBACK_COMMENT_SYNTAX)
+  assertEquals(commentSyntaxFor('notes.tex', { tex: custom }), custom)
+  assertEquals(commentSyntaxFor('Makefile', { '': custom }), custom)
+  // Only the basename's extension counts, not dots in directory names.
+  assertEquals(commentSyntaxFor('v1.2/Makefile'), FALLBACK_COMMENT_SYNTAX)
+})
+
+Deno.test('commentSyntaxFor: built-in line and block markers', () => {
+  const cases: [string, string[], [string, string][]][] = [
+    ['a.ts', ['//'], [['/*', '*/']]],
+    ['a.go', ['//'], [['/*', '*/']]],
+    ['a.py', ['#'], [['"""', '"""'], ["'''", "'''"]]],
+    ['a.rb', ['#'], [['=begin', '=end']]],
+    ['a.sh', ['#'], []],
+    ['a.sql', ['--'], [['/*', '*/']]],
+    ['a.lua', ['--'], [['--[[', ']]']]],
+    ['a.hs', ['--'], [['{-', '-}']]],
+    ['a.clj', [';'], []],
+    ['a.css', [], [['/*', '*/']]],
+    ['a.html', [], [['<!--', '-->']]],
+    ['a.vue', ['//'], [['<!--', '-->'], ['/*', '*/']]],
+  ]
+  for (const [path, line, block] of cases) {
+    const syntax = commentSyntaxFor(path)
+    assertEquals(syntax.line, line, path)
+    assertEquals(syntax.block, block, path)
+  }
+  assertEquals(commentSyntaxFor('a.ts').regex, true)
+  assertEquals(commentSyntaxFor('a.rs').strings, ['"'])
+  assertEquals(commentSyntaxFor('a.rs').chars, true)
+})
+
+Deno.test('comment patterns: match TODOs after each marker', () => {
+  const line = lineTodoPattern(commentSyntaxFor('a.sql').line, ['TODO'])!
+  assertEquals(line.exec('select 1 -- TODO: index')?.[3].trim(), 'index')
+  assert(!line.test('select 1 // TODO: index'))
+  assertEquals(lineTodoPattern([]), null)
+
+  const block = blockTodoPattern(['{-'], ['FIXME'])!
+  assert(block.test('{- FIXME(bob): lazy -}'))
+  assert(!block.test('{- TODO: lazy -}'))
+  assertEquals(blockTodoPattern([]), null)
+})
+
+Deno.test('parseCommentSyntax: normalizes and rejects malformed entries', () => {
+  assertEquals(parseCommentSyntax({ line: ['%'] }), {
+    line: ['%'],
+    block: [],
+    strings: [],
+    regex: false,
+  })
+  assertEquals(parseCommentSyntax({ line: ['//'], chars: true })?.chars, true)
+  assertEquals(
+    parseCommentSyntax({ block: [['(*', '*)']], regex: true })?.block,
+    [['(*', '*)']],
+  )
+  for (
+    const bad of [
+      null,
+      '%',
+      ['%'],
+      { line: '%' },
+      { line: [''] },
+      { line: [1] },
+      { strings: '"' },
+      { regex: 'yes' },
+      { chars: 1 },
+      { block: ['/*', '*/'] },
+      { block: [['/*']] },
+      { block: [['/*', '*/', '!']] },
+      { block: [['/*', 2]] },
+      { block: {} },
+    ]
+  ) {
+    assertEquals(parseCommentSyntax(bad), null, JSON.stringify(bad))
+  }
+})
@@ -0,0 +1,213 @@
+/**
+ * Comment syntax registry: line and block delimiters per file extension,
+ * used by TODO detection and rewriting.
+ */
+
+/**
+ * Comment and literal delimiters for one language.
+ */
+export type CommentSyntax = {
+  /** Line comment markers (e.g., `//`, `#`, `--`). */
+  line: string[]
+  /** Block comment `[open, close]` pairs (e.g., `['/*', '*\/']`). */
+  block: [string, string][]
+  /**
+   * String delimiters; text inside them is never a comment. Single-character
+   * quotes other than a backtick end at the line break.
+   */
+  strings?: string[]
+  /**
+   * JavaScript-family lexing: regex literals and `${}` interpolation inside
+   * backtick template literals.
+   */
+  regex?: boolean
+  /**
+   * Rust-style char literals: `'x'` and escapes like `'\n'` are skipped, while
+   * a `'` that does not close one character later is a lifetime or label.
+   */
+  chars?: boolean
+}
+
+const QUOTES = ['"', "'"]
+const JS_LIKE: CommentSyntax = {
+  line: ['//'],
+  block: [['/*', '*/']],
+  strings: [...QUOTES, '`'],
+  regex: true,
+}
+const C_LIKE: CommentSyntax = {
+  line: ['//'],
+  block: [['/*', '*/']],
+  strings: ['"""', ...QUOTES],
+}
+const HASH: CommentSyntax = { line: ['#'], block: [], strings: QUOTES }
+const SEMICOLON: CommentSyntax = { line: [';'], block: [], strings: ['"'] }
+const MARKUP: CommentSyntax = { line: [], block: [['<!--', '-->']] }
+const SFC: CommentSyntax = {
+  line: ['//'],
+  block: [['<!--', '-->'], ['/*', '*/']],
+  strings: [...QUOTES, '`'],
+  regex: true,
+}
+
+/**
+ * Syntax for files whose extension is not in the registry; matches the
+ * historical `//`, `#` and `/* *\/` detection.
+ */
+export const FALLBACK_COMMENT_SYNTAX: CommentSyntax = {
+  line: ['//', '#'],
+  block: [['/*', '*/']],
+  strings: QUOTES,
+}
+
+/** Built-in registry keyed by lowercase extension (without the dot). */
+export const DEFAULT_COMMENT_SYNTAX: Record<string, CommentSyntax> = {
+  ts: JS_LIKE,
+  tsx: JS_LIKE,
+  mts: JS_LIKE,
+  cts: JS_LIKE,
+  js: JS_LIKE,
+  jsx: JS_LIKE,
+  mjs: JS_LIKE,
+  cjs: JS_LIKE,
+  java: C_LIKE,
+  kt: C_LIKE,
+  kts: C_LIKE,
+  scala: C_LIKE,
+  swift: C_LIKE,
+  dart: C_LIKE,
+  go: { ...C_LIKE, strings: [...QUOTES, '`'] },
+  // `'` also starts lifetimes, so it only delimits single-character literals.
+  rs: { ...C_LIKE, strings: ['"'], chars: true },
+  c: C_LIKE,
+  h: C_LIKE,
+  cc: C_LIKE,
+  cpp: C_LIKE,
+  hpp: C_LIKE,
+  cs: C_LIKE,
+  scss: { ...C_LIKE, strings: QUOTES },
+  less: { ...C_LIKE, strings: QUOTES },
+  css: { line: [], block: [['/*', '*/']], strings: QUOTES },
+  php: { line: ['//', '#'], block: [['/*', '*/']], strings: QUOTES },
+  // Triple-quoted strings are treated as (docstring) block comments.
+  py: {
+    line: ['#'],
+    block: [['"""', '"""'], ["'''", "'''"]],
+    strings: QUOTES,
+  },
+  rb: { line: ['#'], block: [['=begin', '=end']], strings: QUOTES },
+  sh: HASH,
+  bash: HASH,
+  zsh: HASH,
+  // Apostrophes are common in unquoted YAML scalars.
+  yml: { ...HASH, strings: ['"'] },
+  yaml: { ...HASH, strings: ['"'] },
+  toml: HASH,
+  r: HASH,
+  pl: HASH,
+  sql: { line: ['--'], block: [['/*', '*/']], strings: QUOTES },
+  lua: { line: ['--'], block: [['--[[', ']]']], strings: QUOTES },
+  hs: { line: ['--'], block: [['{-', '-}']], strings: ['"'] },
+  lisp: SEMICOLON,
+  clj: SEMICOLON,
+  el: SEMICOLON,
+  scm: SEMICOLON,
+  asm: SEMICOLON,
+  s: SEMICOLON,
+  ini: SEMICOLON,
+  html: MARKUP,
+  htm: MARKUP,
+  xml: MARKUP,
+  md: MARKUP,
+  markdown: MARKUP,
+  vue: SFC,
+  svelte: SFC,
+}
+
+/** Escape `s` for literal use inside a RegExp. */
+export const escapeRegExp = (s: string) =>
+  s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+/**
+ * Regex source for zero or more `(...)` / `[...]` annotation groups directly
+ * after a tag, as in `TODO(alice, #123):` (see `parseTodoMeta`).
+ */
+export const ANNOTATION_PATTERN =
+  '(?:[ \\t]*(?:\\([^()\\n]*\\)|\\[[^\\[\\]\\n]*\\]))*'
+const alternation = (markers: string[]) =>
+  [...markers].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')
+
+/**
+ * Pattern for a line-comment TODO (`<marker> TODO: ...`) preceded by start of
+ * line or whitespace. Group 1 is the lead whitespace, group 2 the marker.
+ * @param markers - Line comment markers.
+ * @param tags - Marker tags to match (default `TODO`).
+ * @returns Pattern, or null when there are no markers.
+ */
+export function lineTodoPattern(
+  markers: string[],
+  tags: string[] = ['TODO'],
+): RegExp | null {
+  if (!markers.length) return null
+  return new RegExp(
+    `(^|\\s)(${alternation(markers)})\\s*(?:${
+      alternation(tags)
+    })${ANNOTATION_PATTERN}[:\\s](.*)$`,
+    'i',
+  )
+}
+
+/**
+ * Pattern for the opening of a block-comment TODO. Group 1 is the opener.
+ * @param opens - Block comment openers.
+ * @param tags - Marker tags to match (default `TODO`).
+ * @returns Pattern, or null when there are no openers.
+ */
+export function blockTodoPattern(
+  opens: string[],
+  tags: string[] = ['TODO'],
+): RegExp | null {
+  if (!opens.length) return null
+  return new RegExp(
+    `(${alternation(opens)})\\s*(?:${
+      alternation(tags)
+    })${ANNOTATION_PATTERN}[:\\s]`,
+    'i',
+  )
+}
+
+/**
+ * Resolve the comment syntax for a file path.
+ * @param path - File path; only the extension is used.
+ * @param overrides - Per-extension entries from config (`comments`); an
+ *   entry replaces the built-in syntax for that extension.
+ */
+export function commentSyntaxFor(
+  path: string,
+  overrides: Record<string, CommentSyntax> = {},
+): CommentSyntax {
+  const base = path.split('/').pop() ?? ''
+  const ext = base.includes('.') ? base.split('.').pop()!.toLowerCase() : ''
+  return overrides[ext] ?? DEFAULT_COMMENT_SYNTAX[ext] ??
+    FALLBACK_COMMENT_SYNTAX
+}
+
+/**
+ * Validate a `comments` config entry; missing fields default to none/false.
+ * @param value - Parsed JSON value.
+ * @returns Normalized syntax, or null when the value is malformed.
+ */
+export function parseCommentSyntax(value: unknown): CommentSyntax | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return null
+  }
+  const { line = [], block = [], strings = [], regex = false, chars = false } =
+    value as Record<string, unknown>
+  const list = (v: unknown): v is string[] =>
+    Array.isArray(v) && v.every((s) => typeof s === 'string' && s.length > 0)
+  if (!list(line) || !list(strings) || typeof regex !== 'boolean') return null
+  if (typeof chars !== 'boolean') return null
+  if (!Array.isArray(block)) return null
+  if (!block.every((pair) => list(pair) && pair.length === 2)) return null
+  const pairs = block as [string, string][]
+  return { line, block: pairs, strings, regex, ...(chars ? { chars } : {}) }
+}
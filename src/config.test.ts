@@ -73,3 +73,133 @@ Deno.test({
     assert(!out.includes('cachePath'), 'cachePath should be hidden')
   },
 })
+
+Deno.test({
+  name: 'config: validates comments syntax entries',
+  permissions: { read: true, write: true, env: true },
+  fn: async () => {
+    const cwd = await Deno.makeTempDir()
+    const overridePath = `${cwd}/override.json`
+    await write(
+      overridePath,
+      JSON.stringify({
+        comments: {
+          '.TEX': { line: ['%'] },
+          vb: { line: "'" },
+        },
+      }),
+    )
+
+    const { config, errors } = await loadConfig({
+      cwd,
+      cli: {},
+      configPath: overridePath,
+    })
+    assertEquals(config.comments, {
+      tex: { line: ['%'], block: [], strings: [], regex: false },
+    })
+    assertEquals(errors.length, 1)
+    assertMatch(errors[0], /'comments\.vb'/)
+  },
+})
+
+Deno.test({
+  name: 'config: markers accept tags and per-tag settings',
+  permissions: { read: true, write: true, env: true },
+  fn: async () => {
+    const cwd = await Deno.makeTempDir()
+    const overridePath = `${cwd}/override.json`
+    await write(
+      overridePath,
+      JSON.stringify({
+        markers: ['TODO', { tag: 'FIXME', sections: ['Bug', 'Fix'] }],
+      }),
+    )
+
+    const { config, errors } = await loadConfig({
+      cwd,
+      cli: {},
+      configPath: overridePath,
+    })
+    assertEquals(errors, [])
+    assertEquals(config.markers, [
+      { tag: 'TODO' },
+      { tag: 'FIXME', sections: ['Bug', 'Fix'] },
+    ])
+
+    // CLI tags keep per-tag settings from config files.
+    const fromCli = await loadConfig({
+      cwd,
+      cli: { markers: 'fixme,HACK' },
+      configPath: overridePath,
+    })
+    assertEquals(fromCli.config.markers, [
+      { tag: 'FIXME', sections: ['Bug', 'Fix'] },
+      { tag: 'HACK' },
+    ])
+
+    await write(overridePath, JSON.stringify({ markers: [{ tag: 'a b' }] }))
+    const bad = await loadConfig({ cwd, cli: {}, configPath: overridePath })
+    assertEquals(bad.errors.length, 1)
+    assertEquals(bad.config.markers, [{ tag: 'TODO' }])
+  },
+})
+
+Deno.test({
+  name: 'config: promptTemplate resolves relative to the config file',
+  permissions: { read: true, write: true, env: true },
+  fn: async () => {
+    const cwd = await Deno.makeTempDir()
+    await write(
+      `${cwd}/.todoexpandrc.json`,
+      JSON.stringify({ promptTemplate: 'prompts/team.prompt.md' }),
+    )
+    const sub = `${cwd}/packages/app`
+    await Deno.mkdir(sub, { recursive: true })
+
+    const { config, errors } = await loadConfig({ cwd: sub, cli: {} })
+    assertEquals(errors, [])
+    assertEquals(config.promptTemplate, `${cwd}/prompts/team.prompt.md`)
+
+    await write(`${cwd}/bad.json`, JSON.stringify({ promptTemplate: 42 }))
+    const bad = await loadConfig({
+      cwd,
+      cli: {},
+      configPath: `${cwd}/bad.json`,
+    })
+    assertMatch(bad.errors[0], /'promptTemplate' must be a non-empty path/)
+  },
+})
+
+Deno.test({
+  name: 'config: OPENAI_MODEL only applies to the OpenAI providers',
+  permissions: { read: true, write: true, env: true },
+  fn: async () => {
+    const cwd = await Deno.makeTempDir()
+    const previous = Deno.env.get('OPENAI_MODEL')
+    Deno.env.set('OPENAI_MODEL', 'gpt-4o')
+    try {
+      await write(
+        `${cwd}/.todoexpandrc.json`,
+        JSON.stringify({ provider: 'anthropic', model: 'claude-x' }),
+      )
+      const anthropic = await loadConfig({ cwd, cli: {} })
+      assertEquals(anthropic.config.model, 'claude-x')
+
+      const ollama = await loadConfig({ cwd, cli: { provider: 'ollama' } })
+      assertEquals(ollama.config.model, 'claude-x')
+
+      const chat = await loadConfig({ cwd, cli: { provider: 'openai-chat' } })
+      assertEquals(chat.config.model, 'gpt-4o')
+
+      const cli = await loadConfig({
+        cwd,
+        cli: { provider: 'openai', model: 'o3' },
+      })
+      assertEquals(cli.config.model, 'o3')
+    } finally {
+      if (previous === undefined) Deno.env.delete('OPENAI_MODEL')
+      else Deno.env.set('OPENAI_MODEL', previous)
+    }
+  },
+})
@@ -1,5 +1,9 @@
 import { exists } from '@std/fs'
-import { dirname, join } from '@std/path'
+import { dirname, join, resolve } from '@std/path'
+import { getProvider, isProviderName, type ProviderName } from './providers.ts'
+import type { Cassette } from './cassette.ts'
+import { type CommentSyntax, parseCommentSyntax } from './comments.ts'
+import { DEFAULT_MARKERS, type Marker, parseMarkers } from './markers.ts'
 
 /**
  * Global configuration resolved from CLI flags, env, config files, and defaults.
@@ -13,9 +17,11 @@ export type Cfg = {
   style: 'succinct' | 'verbose'
   /** Ordered section names for the structured brief. */
   sections: string[]
-  /** OpenAI model ID for the Responses API (e.g., `gpt-4o-mini`). */
+  /** LLM provider adapter (`openai` is the Responses API). */
+  provider: ProviderName
+  /** Model ID for the selected provider (e.g., `gpt-4o-mini`). */
   model: string
-  /** OpenAI Responses API endpoint. */
+  /** Provider endpoint; defaults to the provider's public API URL. */
   endpoint: string
   /** Network timeout (ms) for API requests. */
   timeout: number
@@ -23,8 +29,14 @@ export type Cfg = {
   concurrency: number
   /** Number of context lines to include above/below a TODO. */
   contextLines: number
-  /** Enable on-disk response cache keyed by file + TODO content. */
+  /** Enable on-disk response cache keyed by file, TODO, code context and prompt settings. */
   cache: boolean
+  /** Evict least recently used cache entries beyond this count (`0`: no limit). */
+  cacheMaxEntries: number
+  /** Evict least recently used cache entries beyond this size in bytes (`0`: no limit). */
+  cacheMaxBytes: number
+  /** Reuse a cached brief for the same TODO text in another file. */
+  cacheAcrossFiles: boolean
   /** After rewrite, run a formatter pass (Prettier/`deno fmt`). */
   format: boolean
   /** Reserved for stricter validations in future iterations. */
@@ -41,15 +53,25 @@ export type Cfg = {
   retryBackoffMs: number
   /** Per-file timeout; abort processing a file after this many ms. */
   perFileTimeoutMs: number
+  /** In staged mode, expand only TODOs on lines added/changed by the staged diff. */
+  changedOnly: boolean
+  /** Comment syntax per extension; entries replace the built-in registry's. */
+  comments: Record<string, CommentSyntax>
+  /** Marker tags to detect (TODO, FIXME, ...), with optional per-tag prompt settings. */
+  markers: Marker[]
+  /** Prompt template file with `{{placeholders}}`, resolved relative to the config file that sets it. */
+  promptTemplate?: string
   /** Path to cache file (derived from git repo or CWD). */
   cachePath?: string
+  /** Record/replay LLM calls to a cassette directory (CLI only). */
+  cassette?: Cassette
 }
 
 /**
  * Configuration file format for .todoexpandrc.json and global config.
  * Matches Cfg but all fields are optional and excludes runtime-derived fields.
  */
-export type ConfigFile = Omit<Partial<Cfg>, 'cachePath'>
+export type ConfigFile = Omit<Partial<Cfg>, 'cachePath' | 'cassette'>
 
 /**
  * Validation result for configuration files.
@@ -69,12 +91,16 @@ const VALID_CONFIG_KEYS = new Set([
   'exclude',
   'style',
   'sections',
+  'provider',
   'model',
   'endpoint',
   'timeout',
   'concurrency',
   'contextLines',
   'cache',
+  'cacheMaxEntries',
+  'cacheMaxBytes',
+  'cacheAcrossFiles',
   'format',
   'strict',
   'print',
@@ -83,6 +109,10 @@ const VALID_CONFIG_KEYS = new Set([
   'retries',
   'retryBackoffMs',
   'perFileTimeoutMs',
+  'changedOnly',
+  'comments',
+  'markers',
+  'promptTemplate',
 ])
 
 /**
@@ -185,6 +215,16 @@ function validateConfig(raw: unknown, source: string): ConfigValidation {
         }
         break
 
+      case 'provider':
+        if (isProviderName(value)) {
+          config.provider = value
+        } else {
+          errors.push(
+            `${source}: 'provider' must be one of: openai, openai-chat, anthropic, ollama`,
+          )
+        }
+        break
+
       case '$schema':
         // JSON Schema reference - ignore but don't warn
         break
@@ -198,10 +238,20 @@ function validateConfig(raw: unknown, source: string): ConfigValidation {
         }
         break
 
+      case 'promptTemplate':
+        if (typeof value === 'string' && value.trim()) {
+          config.promptTemplate = resolve(dirname(source), value)
+        } else {
+          errors.push(`${source}: 'promptTemplate' must be a non-empty path`)
+        }
+        break
+
       case 'timeout':
       case 'concurrency':
       case 'contextLines':
       case 'maxFileKB':
+      case 'cacheMaxEntries':
+      case 'cacheMaxBytes':
       case 'retries':
       case 'retryBackoffMs':
       case 'perFileTimeoutMs':
@@ -213,10 +263,12 @@ function validateConfig(raw: unknown, source: string): ConfigValidation {
         break
 
       case 'cache':
+      case 'cacheAcrossFiles':
       case 'format':
       case 'strict':
       case 'print':
       case 'verboseLogs':
+      case 'changedOnly':
         if (typeof value === 'boolean') {
           config[key] = value
         } else {
@@ -224,6 +276,40 @@ function validateConfig(raw: unknown, source: string): ConfigValidation {
         }
         break
 
+      case 'comments': {
+        if (
+          typeof value !== 'object' || value === null || Array.isArray(value)
+        ) {
+          errors.push(
+            `${source}: 'comments' must be an object keyed by extension`,
+          )
+          break
+        }
+        const comments: Record<string, CommentSyntax> = {}
+        for (const [ext, entry] of Object.entries(value)) {
+          const syntax = parseCommentSyntax(entry)
+          if (syntax) {
+            comments[ext.replace(/^\./, '').toLowerCase()] = syntax
+          } else {
+            errors.push(
+              `${source}: 'comments.${ext}' must be { line?: string[], block?: [open, close][] }`,
+            )
+          }
+        }
+        config.comments = comments
+        break
+      }
+
+      case 'markers': {
+        const markers = parseMarkers(value)
+        if (typeof markers === 'string') {
+          errors.push(`${source}: 'markers' ${markers}`)
+        } else {
+          config.markers = markers
+        }
+        break
+      }
+
       default:
         // This shouldn't happen due to the VALID_CONFIG_KEYS check above
         warnings.push(`${source}: Unhandled configuration key '${key}'`)
@@ -326,6 +412,7 @@ export async function loadConfig({
     exclude?: string
     style?: string
     sections?: string | string[]
+    provider?: string
     model?: string
     endpoint?: string
     timeout?: number
@@ -339,6 +426,10 @@ export async function loadConfig({
     retries?: number
     retryBackoffMs?: number
     perFileTimeoutMs?: number
+    changedOnly?: boolean
+    markers?: string
+    record?: string
+    replay?: string
   }>
   configPath?: string
 }): Promise<{
@@ -357,12 +448,16 @@ export async function loadConfig({
     exclude: ['node_modules', 'build', 'dist', '.git'],
     style: 'succinct',
     sections: ['Context', 'Goal', 'Steps', 'Constraints', 'Acceptance'],
+    provider: 'openai',
     model: 'gpt-4o-mini', // Will be overridden by env/config
     endpoint: 'https://api.openai.com/v1/responses',
     timeout: 45000,
     concurrency: 1,
     contextLines: 12,
     cache: true,
+    cacheMaxEntries: 5000,
+    cacheMaxBytes: 5 * 1024 * 1024,
+    cacheAcrossFiles: false,
     format: true,
     strict: false,
     print: false,
@@ -371,6 +466,9 @@ export async function loadConfig({
     retries: 2,
     retryBackoffMs: 500,
     perFileTimeoutMs: 120000,
+    changedOnly: false,
+    comments: {},
+    markers: DEFAULT_MARKERS,
     cachePath: undefined, // Will be set later
   }
 
@@ -439,12 +537,8 @@ export async function loadConfig({
   // Step 5: Build environment configuration
   const envConfig: ConfigFile = {}
 
-  // Only add environment variables that are actually set and non-empty
-  const envModel = Deno.env.get('OPENAI_MODEL')
-  if (envModel && envModel.trim()) {
-    envConfig.model = envModel
-  }
-
+  // Only add environment variables that are actually set and non-empty.
+  // OPENAI_MODEL is applied in Step 9 once the provider is known.
   const envStyle = Deno.env.get('TODO_EXPAND_STYLE')
   if (
     envStyle && envStyle.trim() &&
@@ -482,6 +576,15 @@ export async function loadConfig({
       ? (cli.sections as string[])
       : (cli.sections as string).split(',').map((s: string) => s.trim())
   }
+  if (cli.provider !== undefined) {
+    if (isProviderName(cli.provider)) {
+      cliConfig.provider = cli.provider
+    } else {
+      allErrors.push(
+        `--provider: '${cli.provider}' is not one of: openai, openai-chat, anthropic, ollama`,
+      )
+    }
+  }
   if (cli.model !== undefined) cliConfig.model = cli.model
   if (cli.endpoint !== undefined) cliConfig.endpoint = cli.endpoint
   if (cli.timeout !== undefined) cliConfig.timeout = cli.timeout
@@ -506,6 +609,25 @@ export async function loadConfig({
       (cli as { perFileTimeoutMs: number }).perFileTimeoutMs
   }
 
+  if (cli.changedOnly !== undefined) cliConfig.changedOnly = cli.changedOnly
+  if (cli.markers) {
+    const tags = cli.markers.split(',').map((s) => s.trim()).filter(Boolean)
+    // Keep per-tag settings from config files for tags listed on the CLI.
+    const known = mergedConfig.markers ?? []
+    cliConfig.markers = tags.map((tag) =>
+      known.find((m) => m.tag.toLowerCase() === tag.toLowerCase()) ?? { tag }
+    )
+  }
+
+  let cassette: Cassette | undefined
+  if (cli.record && cli.replay) {
+    allErrors.push('--record and --replay cannot be used together')
+  } else if (cli.record) {
+    cassette = { mode: 'record', dir: resolve(cwd, cli.record) }
+  } else if (cli.replay) {
+    cassette = { mode: 'replay', dir: resolve(cwd, cli.replay) }
+  }
+
   // Step 8: Final merge and create resolved configuration
   const finalConfig = mergeConfigs(mergedConfig, cliConfig)
 
@@ -517,18 +639,34 @@ export async function loadConfig({
     ? true
     : defaults.verboseLogs
 
+  // Provider-specific defaults apply when model/endpoint are not set explicitly
+  const provider = finalConfig.provider || defaults.provider
+  const adapter = getProvider(provider)
+
+  // OPENAI_MODEL names an OpenAI model, so it only applies to the OpenAI
+  // providers; an Anthropic or Ollama setup keeps its configured model.
+  const envModel = Deno.env.get('OPENAI_MODEL')?.trim()
+  const openaiModel = provider === 'openai' || provider === 'openai-chat'
+    ? envModel
+    : undefined
+
   // Step 9: Create final configuration with all fields resolved
   const resolved: Cfg = {
     include: finalConfig.include || defaults.include,
     exclude: finalConfig.exclude || defaults.exclude,
     style: styleUsed,
     sections: finalConfig.sections || defaults.sections,
-    model: finalConfig.model || defaults.model,
-    endpoint: finalConfig.endpoint || defaults.endpoint,
+    provider,
+    model: cliConfig.model || openaiModel || finalConfig.model ||
+      adapter.defaultModel,
+    endpoint: finalConfig.endpoint || adapter.defaultEndpoint,
     timeout: finalConfig.timeout ?? defaults.timeout,
     concurrency: finalConfig.concurrency ?? defaults.concurrency,
     contextLines: finalConfig.contextLines ?? defaults.contextLines,
     cache: finalConfig.cache ?? defaults.cache,
+    cacheMaxEntries: finalConfig.cacheMaxEntries ?? defaults.cacheMaxEntries,
+    cacheMaxBytes: finalConfig.cacheMaxBytes ?? defaults.cacheMaxBytes,
+    cacheAcrossFiles: finalConfig.cacheAcrossFiles ?? defaults.cacheAcrossFiles,
     format: finalConfig.format ?? defaults.format,
     strict: finalConfig.strict ?? defaults.strict,
     print: finalConfig.print ?? defaults.print,
@@ -537,7 +675,12 @@ export async function loadConfig({
     retries: finalConfig.retries ?? defaults.retries,
     retryBackoffMs: finalConfig.retryBackoffMs ?? defaults.retryBackoffMs,
     perFileTimeoutMs: finalConfig.perFileTimeoutMs ?? defaults.perFileTimeoutMs,
+    changedOnly: finalConfig.changedOnly ?? defaults.changedOnly,
+    comments: finalConfig.comments ?? defaults.comments,
+    markers: finalConfig.markers ?? defaults.markers,
+    promptTemplate: finalConfig.promptTemplate,
     cachePath: await determineCachePath(cwd),
+    cassette,
   }
 
   return {
@@ -0,0 +1,41 @@
+import { assertEquals } from '@std/assert'
+import { unifiedDiff } from './diff.ts'
+
+Deno.test('unifiedDiff: renders git-style hunks with context', () => {
+  const before = ['a', 'b', '// TODO: x', 'c', 'd', 'e', 'f', 'g', ''].join(
+    '\n',
+  )
+  const after = before.replace('// TODO: x', '// TODO: x\n// Goal: y')
+
+  assertEquals(
+    unifiedDiff({ path: 'src/a.ts', before, after, context: 1 }),
+    [
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -3,2 +3,3 @@',
+      ' // TODO: x',
+      '+// Goal: y',
+      ' c',
+      '',
+    ].join('\n'),
+  )
+  assertEquals(unifiedDiff({ path: 'a', before, after: before }), '')
+})
+
+Deno.test('unifiedDiff: marks a missing final newline', () => {
+  assertEquals(
+    unifiedDiff({ path: 'a.ts', before: 'x\n// TODO', after: 'x\n// TODO\n' }),
+    [
+      'diff --git a/a.ts b/a.ts',
+      '--- a/a.ts',
+      '+++ b/a.ts',
+      '@@ -1,2 +1,2 @@',
+      ' x',
+      '-// TODO',
+      '\\ No newline at end of file',
+      '+// TODO',
+      '',
+    ].join('\n'),
+  )
+})
@@ -0,0 +1,157 @@
+/**
+ * Unified diff rendering for `--diff` and `--patch-out`. Output uses git's
+ * `a/` / `b/` path prefixes so combined patches apply with `git apply`.
+ */
+import { bold, gray, green, red } from './log.ts'
+
+/** One line of an edit script. */
+type Edit = { op: ' ' | '-' | '+'; line: string }
+
+/**
+ * Split text into lines that keep their terminator, so a missing final
+ * newline compares (and renders) as a distinct line.
+ */
+function splitLines(text: string): string[] {
+  const lines = text.split('\n').map((l) => l + '\n')
+  const last = lines.pop()!
+  if (last !== '\n') lines.push(last.slice(0, -1))
+  return lines
+}
+
+/**
+ * Myers shortest edit script between two line arrays.
+ * @param a - Old lines.
+ * @param b - New lines.
+ */
+function diffLines(a: string[], b: string[]): Edit[] {
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  const off = max + 1
+  const v = new Int32Array(2 * max + 3)
+  const trace: Int32Array[] = []
+
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice())
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[off + k - 1] < v[off + k + 1])
+        ? v[off + k + 1]
+        : v[off + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[off + k] = x
+      if (x >= n && y >= m) break search
+    }
+  }
+
+  // Walk the trace backwards to recover the path.
+  const edits: Edit[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d]
+    const k = x - y
+    const prevK = k === -d || (k !== d && vd[off + k - 1] < vd[off + k + 1])
+      ? k + 1
+      : k - 1
+    const prevX = vd[off + prevK]
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      edits.push({ op: ' ', line: a[--x] })
+      y--
+    }
+    if (d === 0) break
+    if (x === prevX) edits.push({ op: '+', line: b[--y] })
+    else edits.push({ op: '-', line: a[--x] })
+  }
+  return edits.reverse()
+}
+
+/** Render one diff line, flagging a missing final newline like git does. */
+function renderLine({ op, line }: Edit): string {
+  return line.endsWith('\n')
+    ? op + line
+    : `${op}${line}\n\\ No newline at end of file\n`
+}
+
+/**
+ * Render a unified diff between two versions of a file.
+ *
+ * @param path - Repo-relative path used in the `a/` and `b/` headers.
+ * @param before - Original file content.
+ * @param after - Updated file content.
+ * @param context - Unchanged lines to show around each change.
+ * @returns Diff text ending in a newline, or an empty string when equal.
+ */
+export function unifiedDiff({
+  path,
+  before,
+  after,
+  context = 3,
+}: {
+  path: string
+  before: string
+  after: string
+  context?: number
+}): string {
+  if (before === after) return ''
+  const edits = diffLines(splitLines(before), splitLines(after))
+
+  // Group changes into hunks, merging ones whose context would overlap.
+  const hunks: Array<[number, number]> = []
+  for (let i = 0; i < edits.length; i++) {
+    if (edits[i].op === ' ') continue
+    const start = Math.max(0, i - context)
+    while (i + 1 < edits.length && edits[i + 1].op !== ' ') i++
+    const end = Math.min(edits.length - 1, i + context)
+    const last = hunks[hunks.length - 1]
+    if (last && start <= last[1] + 1) last[1] = end
+    else hunks.push([start, end])
+  }
+
+  // Line numbers (1-based) of the first old/new line at each edit index.
+  const oldAt: number[] = []
+  const newAt: number[] = []
+  let oldLine = 1
+  let newLine = 1
+  for (const e of edits) {
+    oldAt.push(oldLine)
+    newAt.push(newLine)
+    if (e.op !== '+') oldLine++
+    if (e.op !== '-') newLine++
+  }
+
+  let out = `diff --git a/${path} b/${path}\n--- a/${path}\n+++ b/${path}\n`
+  for (const [start, end] of hunks) {
+    const slice = edits.slice(start, end + 1)
+    const oldLen = slice.filter((e) => e.op !== '+').length
+    const newLen = slice.filter((e) => e.op !== '-').length
+    // An empty side points at the line before the hunk, as in GNU diff.
+    const oldStart = oldLen ? oldAt[start] : oldAt[start] - 1
+    const newStart = newLen ? newAt[start] : newAt[start] - 1
+    out += `@@ -${oldStart},${oldLen} +${newStart},${newLen} @@\n`
+    out += slice.map(renderLine).join('')
+  }
+  return out
+}
+
+/**
+ * Colorize a diff for terminal output (without the trailing newline).
+ * @param diff - Output of `unifiedDiff`.
+ */
+export function colorDiff(diff: string): string {
+  return diff
+    .replace(/\n$/, '')
+    .split('\n')
+    .map((line) => {
+      if (/^(diff --git|---|\+\+\+) /.test(line)) return bold(line)
+      if (line.startsWith('@@')) return gray(line)
+      if (line.startsWith('+')) return green(line)
+      if (line.startsWith('-')) return red(line)
+      return line
+    })
+    .join('\n')
+}
@@ -33,3 +33,49 @@ export async function formatFiles(files: string[]) {
     // Ignore errors when trying to write YAML
   }
 }
+
+/**
+ * Run a formatter on text piped through stdin.
+ * @returns Formatted text, or null when the command fails.
+ */
+async function pipeThrough(cmd: string, args: string[], text: string) {
+  try {
+    const child = new Deno.Command(cmd, {
+      args,
+      stdin: 'piped',
+      stdout: 'piped',
+      stderr: 'null',
+    }).spawn()
+    const writer = child.stdin.getWriter()
+    await writer.write(new TextEncoder().encode(text))
+    await writer.close()
+    const { success, stdout } = await child.output()
+    const out = new TextDecoder().decode(stdout)
+    return success && out ? out : null
+  } catch (_) {
+    return null
+  }
+}
+
+/**
+ * Best-effort formatting of in-memory content, used for staged (index blob)
+ * rewrites where the file on disk may hold unstaged edits.
+ *
+ * Same strategy as `formatFiles`: Prettier (`--stdin-filepath`), then
+ * `deno fmt -` for TS/JS/JSON/MD/YAML.
+ *
+ * @param path - File path; selects the parser and config.
+ * @param text - Content to format.
+ * @returns Formatted content, or `text` unchanged when no formatter works.
+ */
+export async function formatText(path: string, text: string): Promise<string> {
+  const prettier = await pipeThrough(
+    'npx',
+    ['prettier', '--stdin-filepath', path],
+    text,
+  )
+  if (prettier !== null) return prettier
+  const ext = path.match(/\.(ts|tsx|js|jsx|json|md|yml|yaml)$/)?.[1]
+  if (!ext) return text
+  return await pipeThrough('deno', ['fmt', `--ext=${ext}`, '-'], text) ?? text
+}
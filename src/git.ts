@@ -0,0 +1,73 @@
+/** Thin wrappers around the git CLI. */
+import { join } from '@std/path'
+
+/**
+ * Run a git command and return its exit code and decoded output.
+ * @param args - Git arguments (e.g., ["diff", "--name-only", "--cached"]).
+ * @param cwd - Working directory where the git command executes.
+ * @param stdin - Optional text piped to git's standard input.
+ */
+export async function runGit(
+  args: string[],
+  { cwd, stdin }: { cwd: string; stdin?: string },
+): Promise<{ code: number; stdout: string; stderr: string }> {
+  const p = new Deno.Command('git', {
+    args,
+    cwd,
+    stdin: stdin === undefined ? 'null' : 'piped',
+    stdout: 'piped',
+    stderr: 'piped',
+  }).spawn()
+  if (stdin !== undefined) {
+    const writer = p.stdin.getWriter()
+    await writer.write(new TextEncoder().encode(stdin))
+    await writer.close()
+  }
+  const { code, stdout, stderr } = await p.output()
+  const dec = new TextDecoder()
+  return { code, stdout: dec.decode(stdout), stderr: dec.decode(stderr) }
+}
+
+/**
+ * Run a git command and return stdout as UTF-8 string.
+ * @param args - Git arguments (e.g., ["diff", "--name-only", "--cached"]).
+ * @param cwd - Working directory where the git command executes.
+ * @param stdin - Optional text piped to git's standard input.
+ * @returns Raw stdout string on success.
+ * @throws Error when git exits with non-zero code.
+ */
+export async function git(
+  args: string[],
+  { cwd, stdin }: { cwd: string; stdin?: string },
+): Promise<string> {
+  const { code, stdout, stderr } = await runGit(args, { cwd, stdin })
+  if (code !== 0) {
+    throw new Error(`git ${args.join(' ')} failed: ${stderr}`)
+  }
+  return stdout
+}
+
+/**
+ * Path of `cwd` relative to the repository root (`git rev-parse
+ * --show-prefix`), e.g. `packages/app/`. Empty at the root or outside a
+ * repository.
+ * @param cwd - Directory to resolve.
+ */
+export async function repoPrefix(cwd: string): Promise<string> {
+  const { code, stdout } = await runGit(['rev-parse', '--show-prefix'], {
+    cwd,
+  })
+  return code === 0 ? stdout.trim() : ''
+}
+
+/**
+ * Repository root as seen from `cwd`, built from `git rev-parse --show-cdup`
+ * so it keeps the spelling of `cwd` (symlinks are not resolved). Paths that
+ * `git diff` prints are relative to this directory.
+ * @param cwd - Directory inside the work tree.
+ * @returns Root directory; `cwd` itself outside a repository.
+ */
+export async function repoRoot(cwd: string): Promise<string> {
+  const { code, stdout } = await runGit(['rev-parse', '--show-cdup'], { cwd })
+  return code === 0 ? join(cwd, stdout.trim()) : cwd
+}
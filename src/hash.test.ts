@@ -0,0 +1,15 @@
+import { assertEquals, assertNotEquals } from '@std/assert'
+import { cacheKey, fnv1aHex } from './hash.ts'
+
+Deno.test('fnv1aHex: matches the FNV-1a 32-bit reference values', () => {
+  assertEquals(fnv1aHex(''), '811c9dc5')
+  assertEquals(fnv1aHex('a'), 'e40c292c')
+  assertEquals(fnv1aHex('foobar'), 'bf9cf968')
+})
+
+Deno.test('cacheKey: depends on path and raw text', () => {
+  const key = cacheKey('a.ts', '// TODO: fix')
+  assertEquals(key, 'f:' + fnv1aHex('a.ts::// TODO: fix'))
+  assertNotEquals(cacheKey('b.ts', '// TODO: fix'), key)
+  assertNotEquals(cacheKey('a.ts', '// TODO: other'), key)
+})
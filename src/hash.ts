@@ -0,0 +1,25 @@
+/** Dependency-free hashing shared by the pipeline, cache keys and baselines. */
+
+/**
+ * FNV-1a 32-bit hash to compact cache keys.
+ * @param str - Input string.
+ * @returns Lowercase 8-hex-digit string.
+ */
+export function fnv1aHex(str: string): string {
+  let h = 0x811c9dc5 >>> 0
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i)
+    h = (h + ((h << 1) + (h << 4) + (h << 7) + (h << 8) + (h << 24))) >>> 0
+  }
+  return h.toString(16).padStart(8, '0')
+}
+
+/**
+ * Build a stable key from file path and TODO content; the baseline
+ * fingerprint for `todo-expand check`.
+ * @param path - Relative file path.
+ * @param raw - Raw TODO text.
+ */
+export function cacheKey(path: string, raw: string): string {
+  return 'f:' + fnv1aHex(path + '::' + raw)
+}
@@ -0,0 +1,56 @@
+import { assertEquals, assertStringIncludes } from '@std/assert'
+import { formatList, listTodos } from './list.ts'
+
+Deno.test({
+  name: 'listTodos: lists raw and structured TODOs with metadata',
+  permissions: { read: true, write: true },
+  fn: async () => {
+    const cwd = await Deno.makeTempDir()
+    await Deno.writeTextFile(
+      `${cwd}/a.ts`,
+      [
+        '// TODO(alice, #12)[2026-01-15]: cache, "fast"',
+        'x()',
+        '// TODO: Cache results',
+        '// Context: a',
+        '// Goal: b',
+        '// Steps: c',
+        '// Constraints: d',
+        '// Acceptance: e',
+        '/* FIXME: a | b */',
+      ].join('\n'),
+    )
+
+    const entries = await listTodos({
+      cwd,
+      files: [`${cwd}/a.ts`],
+      tags: ['TODO', 'FIXME'],
+    })
+    assertEquals(
+      entries.map(({ line, marker, status }) => [line, marker, status]),
+      [[1, 'TODO', 'raw'], [3, 'TODO', 'structured'], [9, 'FIXME', 'raw']],
+    )
+    assertEquals(entries[0].meta, {
+      owner: 'alice',
+      issue: '#12',
+      due: '2026-01-15',
+    })
+
+    const today = '2026-06-01'
+    const summary = '3 TODO(s) in 1 file(s): 2 raw, 1 structured ' +
+      '(TODO 2, FIXME 1); 1 overdue'
+    assertEquals(formatList(entries, 'table', today).split('\n').pop(), summary)
+    assertEquals(formatList(entries, 'csv', today).split('\n').slice(0, 2), [
+      'file,line,marker,status,owner,issue,priority,due,text',
+      'a.ts,1,TODO,raw,alice,#12,,2026-01-15,' +
+      '"// TODO(alice, #12)[2026-01-15]: cache, ""fast"""',
+    ])
+    assertStringIncludes(
+      formatList(entries, 'markdown', today),
+      '| a.ts | 9 | FIXME | raw |  |  |  |  | /* FIXME: a \\| b */ |',
+    )
+    const json = JSON.parse(formatList(entries, 'json', today))
+    assertEquals(json.summary.structured, 1)
+    assertEquals(json.todos.length, 3)
+  },
+})
@@ -0,0 +1,215 @@
+/** TODO inventory for `todo-expand list`; never calls the LLM. */
+import { relative } from '@std/path'
+import { detectTodos } from './todos.ts'
+import { type CommentSyntax, commentSyntaxFor } from './comments.ts'
+import { isOverdue, type TodoMeta } from './metadata.ts'
+import { readIndexBlob } from './staged.ts'
+
+/** Output formats supported by `formatList`. */
+export const LIST_FORMATS = ['table', 'json', 'csv', 'markdown'] as const
+export type ListFormat = typeof LIST_FORMATS[number]
+
+/**
+ * One TODO (raw or already expanded) reported by `todo-expand list`.
+ */
+export type ListEntry = {
+  /** Path relative to the working directory. */
+  file: string
+  /** One-based line number where the TODO starts. */
+  line: number
+  /** Marker tag as configured (e.g., `TODO`, `FIXME`). */
+  marker: string
+  /** `structured` for complete briefs, `raw` for TODOs still to expand. */
+  status: 'raw' | 'structured'
+  /** First line of the comment, trimmed. */
+  text: string
+  /** Owner, issue, priority and due date from the TODO's annotation. */
+  meta?: TodoMeta
+}
+
+/**
+ * Totals for a list of entries.
+ */
+export type ListSummary = {
+  total: number
+  raw: number
+  structured: number
+  /** Files with at least one TODO. */
+  files: number
+  /** Entries past their due date. */
+  overdue: number
+  /** Count per marker tag. */
+  markers: Record<string, number>
+}
+
+/**
+ * Scan files for every TODO, raw and structured.
+ *
+ * @param cwd - Directory entries are reported relative to.
+ * @param files - Absolute file paths (typically from `discoverTargets`).
+ * @param comments - Per-extension comment syntax overrides (`cfg.comments`).
+ * @param tags - Marker tags to detect (default `TODO`).
+ * @param sections - Sections a complete brief needs, per tag.
+ * @param fromIndex - Read each file's staged blob instead of the working
+ *   tree copy (`--staged`), so unstaged edits do not count.
+ * @returns Entries ordered by file, then line.
+ */
+export async function listTodos({
+  cwd,
+  files,
+  comments,
+  tags,
+  sections,
+  fromIndex = false,
+}: {
+  cwd: string
+  files: string[]
+  comments?: Record<string, CommentSyntax>
+  tags?: string[]
+  sections?: (tag: string) => string[]
+  fromIndex?: boolean
+}): Promise<ListEntry[]> {
+  const entries: ListEntry[] = []
+  for (const abs of files) {
+    const content = fromIndex
+      ? (await readIndexBlob(abs)).content
+      : await Deno.readTextFile(abs)
+    const { todos, structured } = detectTodos(
+      content,
+      commentSyntaxFor(abs, comments),
+      tags,
+      sections,
+    )
+    const file = relative(cwd, abs)
+    const found = [
+      ...todos.map((todo) => ({ todo, status: 'raw' as const })),
+      ...structured.map((todo) => ({ todo, status: 'structured' as const })),
+    ]
+    for (const { todo, status } of found) {
+      entries.push({
+        file,
+        line: todo.start + 1,
+        marker: todo.tag,
+        status,
+        text: todo.raw.split('\n')[0].trim(),
+        ...(todo.meta && { meta: todo.meta }),
+      })
+    }
+  }
+  return entries.sort((a, b) =>
+    a.file === b.file ? a.line - b.line : a.file < b.file ? -1 : 1
+  )
+}
+
+/**
+ * Count entries by status, file and marker tag.
+ * @param entries - Entries from `listTodos`.
+ * @param today - Reference date for `overdue` (default: current UTC date).
+ */
+export function summarizeList(
+  entries: ListEntry[],
+  today?: string,
+): ListSummary {
+  const markers: Record<string, number> = {}
+  for (const e of entries) markers[e.marker] = (markers[e.marker] ?? 0) + 1
+  return {
+    total: entries.length,
+    raw: entries.filter((e) => e.status === 'raw').length,
+    structured: entries.filter((e) => e.status === 'structured').length,
+    files: new Set(entries.map((e) => e.file)).size,
+    overdue: entries.filter((e) => isOverdue(e.meta, today)).length,
+    markers,
+  }
+}
+
+const COLUMNS = [
+  'file',
+  'line',
+  'marker',
+  'status',
+  'owner',
+  'issue',
+  'priority',
+  'due',
+  'text',
+] as const
+
+/** Cell values of one entry, in `COLUMNS` order. */
+const cells = (e: ListEntry) => [
+  e.file,
+  String(e.line),
+  e.marker,
+  e.status,
+  e.meta?.owner ?? '',
+  e.meta?.issue ?? '',
+  e.meta?.priority ?? '',
+  e.meta?.due ?? '',
+  e.text,
+]
+
+const csvCell = (s: string) =>
+  /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+
+/** One-line summary, e.g. `3 TODO(s) in 2 file(s): 2 raw, 1 structured`. */
+function summaryLine(s: ListSummary): string {
+  const markers = Object.entries(s.markers)
+    .map(([tag, n]) => `${tag} ${n}`)
+    .join(', ')
+  const counts = `${s.raw} raw, ${s.structured} structured`
+  return `${s.total} TODO(s) in ${s.files} file(s): ${counts}` +
+    (markers ? ` (${markers})` : '') +
+    (s.overdue ? `; ${s.overdue} overdue` : '')
+}
+
+/**
+ * Render entries in one of `LIST_FORMATS`.
+ *
+ * `table` and `markdown` end with a summary line; `json` is
+ * `{ summary, todos }`; `csv` has a header row and one row per entry.
+ *
+ * @param entries - Entries from `listTodos`.
+ * @param format - Output format.
+ * @param today - Reference date for overdue counts.
+ */
+export function formatList(
+  entries: ListEntry[],
+  format: ListFormat,
+  today?: string,
+): string {
+  const summary = summarizeList(entries, today)
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ summary, todos: entries }, null, 2)
+    case 'csv': {
+      const rows = entries.map((e) => cells(e).map(csvCell).join(','))
+      return [COLUMNS.join(','), ...rows].join('\n')
+    }
+    case 'markdown': {
+      const row = (values: readonly string[]) =>
+        `| ${values.map((v) => v.replace(/\|/g, '\\|')).join(' | ')} |`
+      return [
+        row(COLUMNS),
+        row(COLUMNS.map(() => '---')),
+        ...entries.map((e) => row(cells(e))),
+        '',
+        `**Summary:** ${summaryLine(summary)}`,
+      ].join('\n')
+    }
+    case 'table': {
+      const rows = [
+        COLUMNS.map((c) => c.toUpperCase()),
+        ...entries.map(cells),
+      ]
+      // Size every column but the last (free-form text) to its widest cell.
+      const widths = COLUMNS.map((_, i) =>
+        Math.max(...rows.map((r) => r[i].length))
+      )
+      const lines = rows.map((r) =>
+        r
+          .map((v, i) => (i === r.length - 1 ? v : v.padEnd(widths[i])))
+          .join('  ')
+      )
+      return [...(entries.length ? lines : []), summaryLine(summary)].join('\n')
+    }
+  }
+}
@@ -1,3 +1,3 @@
 // Lightweight logger color exports for consistent CLI output.
-import { bold, gray, green, yellow } from '@std/fmt/colors'
-export { bold, gray, green, yellow }
+import { bold, gray, green, red, yellow } from '@std/fmt/colors'
+export { bold, gray, green, red, yellow }
@@ -0,0 +1,102 @@
+/**
+ * Marker tags (TODO, FIXME, HACK, ...) that identify comments to expand.
+ */
+import type { Cfg } from './config.ts'
+
+/**
+ * A tag to detect, with optional per-tag prompt settings.
+ */
+export type Marker = {
+  /** Tag as written after the comment marker (e.g., `FIXME`, `@ai`). */
+  tag: string
+  /** What the tag means, passed to the prompt (e.g., `bug fix`). */
+  kind?: string
+  /** Sections for briefs of this tag; defaults to `cfg.sections`. */
+  sections?: string[]
+  /** Style for briefs of this tag; defaults to `cfg.style`. */
+  style?: Cfg['style']
+}
+
+/** Tags detected when no `markers` are configured. */
+export const DEFAULT_MARKERS: Marker[] = [{ tag: 'TODO' }]
+
+/** Meaning of well-known tags, used when a marker has no `kind`. */
+const KNOWN_KINDS: Record<string, string> = {
+  TODO: 'task',
+  FIXME: 'bug fix',
+  BUG: 'bug fix',
+  HACK: 'cleanup of a workaround',
+  XXX: 'problem that needs attention',
+}
+
+/**
+ * Describe what a marker asks for (e.g., `bug fix` for FIXME).
+ * @param marker - Configured marker.
+ */
+export function markerKind(marker: Marker): string {
+  return marker.kind ?? KNOWN_KINDS[marker.tag.toUpperCase()] ?? 'task'
+}
+
+/**
+ * Find the configured marker for a tag (case-insensitive).
+ * @param markers - Configured markers.
+ * @param tag - Tag as carried on a `TodoMatch`.
+ */
+export function findMarker(markers: Marker[], tag: string): Marker {
+  return markers.find((m) => m.tag.toLowerCase() === tag.toLowerCase()) ??
+    { tag }
+}
+
+/**
+ * Sections expected in briefs per tag: the marker's own `sections`, else
+ * `fallback` (usually `cfg.sections`).
+ * @param markers - Configured markers.
+ * @param fallback - Sections for tags without their own.
+ */
+export function sectionsFor(
+  markers: Marker[],
+  fallback: string[],
+): (tag: string) => string[] {
+  return (tag) => findMarker(markers, tag).sections ?? fallback
+}
+
+/**
+ * Validate a `markers` config value. Entries are tag strings or objects
+ * with `tag` and optional `kind`, `sections` and `style`.
+ *
+ * @param value - Parsed JSON value.
+ * @returns Normalized markers, or an error message.
+ */
+export function parseMarkers(value: unknown): Marker[] | string {
+  if (!Array.isArray(value) || !value.length) {
+    return 'must be a non-empty array of tags or { tag, kind?, sections?, style? } objects'
+  }
+  const markers: Marker[] = []
+  for (const entry of value) {
+    const { tag, kind, sections, style } = typeof entry === 'string'
+      ? { tag: entry } as Record<string, unknown>
+      : (entry ?? {}) as Record<string, unknown>
+    if (typeof tag !== 'string' || !tag.trim() || /\s/.test(tag.trim())) {
+      return `has an entry without a valid 'tag': ${JSON.stringify(entry)}`
+    }
+    if (kind !== undefined && typeof kind !== 'string') {
+      return `'${tag}': 'kind' must be a string`
+    }
+    if (
+      sections !== undefined &&
+      !(Array.isArray(sections) && sections.every((s) => typeof s === 'string'))
+    ) {
+      return `'${tag}': 'sections' must be an array of strings`
+    }
+    if (style !== undefined && style !== 'succinct' && style !== 'verbose') {
+      return `'${tag}': 'style' must be 'succinct' or 'verbose'`
+    }
+    markers.push({
+      tag: tag.trim(),
+      ...(kind !== undefined && { kind }),
+      ...(sections !== undefined && { sections: sections as string[] }),
+      ...(style !== undefined && { style }),
+    })
+  }
+  return markers
+}
@@ -0,0 +1,46 @@
+import { assertEquals } from '@std/assert'
+import { isOverdue, keepAnnotation, parseTodoMeta } from './metadata.ts'
+
+Deno.test('parseTodoMeta: classifies items by shape or key', () => {
+  assertEquals(parseTodoMeta('(@alice, ABC-42, p2)[2026-12-01]'), {
+    owner: 'alice',
+    issue: 'ABC-42',
+    priority: 'P2',
+    due: '2026-12-01',
+  })
+  assertEquals(
+    parseTodoMeta('(owner: bob, issue=org/repo#7, priority: 0, due: soon)'),
+    { owner: 'bob', issue: 'org/repo#7', priority: 'P0' },
+  )
+  // Invalid dates are dropped; only the first owner counts.
+  assertEquals(parseTodoMeta('(2026-02-30, carol, dave)'), { owner: 'carol' })
+  assertEquals(parseTodoMeta('()'), {})
+})
+
+Deno.test('isOverdue: compares the due date with today', () => {
+  assertEquals(isOverdue({ due: '2026-01-01' }, '2026-01-02'), true)
+  assertEquals(isOverdue({ due: '2026-01-02' }, '2026-01-02'), false)
+  assertEquals(isOverdue({ owner: 'alice' }, '2026-01-02'), false)
+  assertEquals(isOverdue(undefined), false)
+})
+
+Deno.test('keepAnnotation: keeps the annotation in the brief header', () => {
+  assertEquals(
+    keepAnnotation(
+      '// TODO: Cache results\n// Context: slow lookups',
+      'TODO',
+      '(alice, #123)',
+    ),
+    '// TODO(alice, #123): Cache results\n// Context: slow lookups',
+  )
+  // A different annotation written by the model is replaced.
+  assertEquals(
+    keepAnnotation('# todo(bob): x', 'TODO', '(alice)'),
+    '# todo(alice): x',
+  )
+  assertEquals(
+    keepAnnotation('/*\nContext: x\n*/', 'FIXME', '[2026-12-01]'),
+    '/*\nFIXME[2026-12-01]: Context: x\n*/',
+  )
+  assertEquals(keepAnnotation('// TODO: x', 'TODO', ''), '// TODO: x')
+})
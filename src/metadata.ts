@@ -0,0 +1,152 @@
+/**
+ * TODO metadata written next to the tag, as in `TODO(alice, #123, P1): ...`
+ * or `TODO[2026-12-01]: ...`.
+ */
+import { ANNOTATION_PATTERN, escapeRegExp } from './comments.ts'
+
+/**
+ * Structured fields parsed from a TODO's annotation.
+ */
+export type TodoMeta = {
+  /** Person responsible, without a leading `@`. */
+  owner?: string
+  /** Issue reference (`#123`, `ABC-123`, `org/repo#123` or a URL). */
+  issue?: string
+  /** Priority, normalized to `P0`..`P9`. */
+  priority?: string
+  /** Due date as `YYYY-MM-DD`. */
+  due?: string
+}
+
+const KEYS: Record<string, keyof TodoMeta> = {
+  owner: 'owner',
+  assignee: 'owner',
+  issue: 'issue',
+  ticket: 'issue',
+  priority: 'priority',
+  p: 'priority',
+  due: 'due',
+}
+
+const isIssue = (s: string) =>
+  /^#\d+$/.test(s) || /^[A-Z][A-Z0-9]+-\d+$/.test(s) ||
+  /^[\w.-]+\/[\w.-]+#\d+$/.test(s) || /^https?:\/\/\S+$/.test(s)
+
+const isDate = (s: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(s) &&
+  !isNaN(Date.parse(s)) &&
+  new Date(`${s}T00:00:00Z`).toISOString().startsWith(s)
+
+/** Field for an item without a `key:`; anything unrecognized is the owner. */
+function classify(item: string): keyof TodoMeta {
+  if (isIssue(item)) return 'issue'
+  if (/^p\d$/i.test(item)) return 'priority'
+  if (/^\d{4}-\d{2}-\d{2}$/.test(item)) return 'due'
+  return 'owner'
+}
+
+/**
+ * Parse the annotation groups that follow a tag.
+ *
+ * Items are separated by commas. `key: value` / `key=value` items set a
+ * field explicitly (`owner`, `issue`, `priority`, `due`); bare items are
+ * classified by shape, and the first unrecognized one is the owner.
+ *
+ * @param annotation - Groups as written (e.g., `(alice, #123)[2026-12-01]`).
+ * @returns Parsed fields; empty when nothing is recognized.
+ * @example
+ * parseTodoMeta('(@alice, #123, p1)')
+ * // { owner: 'alice', issue: '#123', priority: 'P1' }
+ */
+export function parseTodoMeta(annotation: string): TodoMeta {
+  const meta: TodoMeta = {}
+  const items = [...annotation.matchAll(/\(([^()\n]*)\)|\[([^\[\]\n]*)\]/g)]
+    .flatMap((m) => (m[1] ?? m[2]).split(','))
+    .map((s) => s.trim())
+    .filter(Boolean)
+  for (const item of items) {
+    const keyed = item.match(/^(\w+)\s*[:=]\s*(.+)$/)
+    const key = keyed ? KEYS[keyed[1].toLowerCase()] : undefined
+    const value = key ? keyed![2].trim() : item
+    switch (key ?? classify(value)) {
+      case 'issue':
+        meta.issue ??= value
+        break
+      case 'priority':
+        if (/^p?\d$/i.test(value)) {
+          meta.priority ??= `P${value.slice(-1)}`
+        }
+        break
+      case 'due':
+        if (isDate(value)) meta.due ??= value
+        break
+      case 'owner':
+        meta.owner ??= value.replace(/^@/, '')
+    }
+  }
+  return meta
+}
+
+/**
+ * Render metadata as `owner=alice, issue=#123, ...` for prompts and logs.
+ * @returns Empty string when no field is set.
+ */
+export function formatTodoMeta(meta: TodoMeta): string {
+  return (['owner', 'issue', 'priority', 'due'] as const)
+    .filter((k) => meta[k])
+    .map((k) => `${k}=${meta[k]}`)
+    .join(', ')
+}
+
+/**
+ * Whether a TODO's due date is before `today`.
+ * @param meta - Parsed metadata.
+ * @param today - Reference date as `YYYY-MM-DD` (default: current UTC date).
+ */
+export function isOverdue(
+  meta: TodoMeta | undefined,
+  today = new Date().toISOString().slice(0, 10),
+): boolean {
+  return !!meta?.due && meta.due < today
+}
+
+/**
+ * Keep the original tag annotation in a rewritten brief's header line, so
+ * `TODO(alice, #123): ...` stays attributed after expansion.
+ *
+ * The first line that starts (after comment markers) with `tag` gets the
+ * annotation; any annotation the model wrote there is replaced. When no line
+ * starts with the tag, `tag` and the annotation are put in front of the first
+ * line with text.
+ *
+ * @param comment - Rewritten comment.
+ * @param tag - Tag of the original TODO.
+ * @param annotation - Annotation groups as written in the original TODO.
+ */
+export function keepAnnotation(
+  comment: string,
+  tag: string,
+  annotation: string,
+): string {
+  if (!annotation) return comment
+  const lines = comment.split('\n')
+  const header = new RegExp(
+    `^([^\\w\\n]*?)(${escapeRegExp(tag)})${ANNOTATION_PATTERN}(?=[:\\s]|$)`,
+    'i',
+  )
+  const at = lines.findIndex((l) => header.test(l))
+  if (at !== -1) {
+    lines[at] = lines[at].replace(
+      header,
+      (_, lead, written) => lead + written + annotation,
+    )
+    return lines.join('\n')
+  }
+  const text = lines.findIndex((l) => /\w/.test(l))
+  if (text === -1) return comment
+  lines[text] = lines[text].replace(
+    /^([^\w\n]*?)(?=[\w@])/,
+    (lead) => `${lead}${tag}${annotation}: `,
+  )
+  return lines.join('\n')
+}
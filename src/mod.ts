@@ -1,4 +1,5 @@
 export * from './config.ts'
 export * from './process.ts'
 export * from './prompt.ts'
+export * from './providers.ts'
 export * from './rewrite.ts'
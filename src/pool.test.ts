@@ -0,0 +1,40 @@
+import { assertEquals } from '@std/assert'
+import { createLimiter, runPool } from './pool.ts'
+
+const tick = (ms: number) => new Promise((r) => setTimeout(r, ms))
+
+Deno.test('createLimiter: never exceeds the configured limit', async () => {
+  const limit = createLimiter(2)
+  let active = 0
+  let peak = 0
+  await Promise.all(
+    Array.from({ length: 6 }, (_, i) =>
+      limit(async () => {
+        active++
+        peak = Math.max(peak, active)
+        await tick(5 + (i % 3))
+        active--
+      })),
+  )
+  assertEquals(peak, 2)
+  assertEquals(active, 0)
+})
+
+Deno.test('runPool: preserves order and bounds workers', async () => {
+  let active = 0
+  let peak = 0
+  const out = await runPool([30, 10, 20, 5], 3, async (n, i) => {
+    active++
+    peak = Math.max(peak, active)
+    await tick(n)
+    active--
+    return `${i}:${n}`
+  })
+  assertEquals(out, ['0:30', '1:10', '2:20', '3:5'])
+  assertEquals(peak, 3)
+})
+
+Deno.test('runPool: handles empty input', async () => {
+  const out = await runPool([], 4, () => Promise.resolve(1))
+  assertEquals(out, [])
+})
@@ -0,0 +1,76 @@
+/** Bounded concurrency helpers for file processing and LLM requests. */
+
+/**
+ * Run an async task while holding one slot of a shared limit.
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>
+
+/**
+ * Create a limiter that allows at most `max` tasks to run at once.
+ * Extra tasks wait in FIFO order until a slot frees up.
+ *
+ * @param max - Maximum number of concurrently running tasks (minimum 1).
+ * @returns Function that schedules a task under the limit.
+ * @example
+ * const limit = createLimiter(2)
+ * await Promise.all(urls.map((u) => limit(() => fetch(u))))
+ */
+export function createLimiter(max: number): Limiter {
+  const size = Math.max(1, Math.floor(max) || 1)
+  let active = 0
+  const queue: (() => void)[] = []
+
+  // Hand the slot straight to the next waiter so late callers cannot jump
+  // the queue between release and wake-up.
+  const release = () => {
+    const next = queue.shift()
+    if (next) next()
+    else active--
+  }
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= size) {
+      await new Promise<void>((resolve) => queue.push(resolve))
+    } else {
+      active++
+    }
+    try {
+      return await task()
+    } finally {
+      release()
+    }
+  }
+}
+
+/**
+ * Process `items` with a fixed number of workers, preserving result order.
+ * A rejected task rejects the whole pool; wrap the worker to handle errors
+ * per item.
+ *
+ * @param items - Inputs to process.
+ * @param concurrency - Number of workers (minimum 1).
+ * @param worker - Async function invoked for each item and its index.
+ * @returns Results in the same order as `items`.
+ */
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  const size = Math.min(
+    items.length,
+    Math.max(1, Math.floor(concurrency) || 1),
+  )
+  let next = 0
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await worker(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: size }, run))
+  return results
+}
@@ -0,0 +1,141 @@
+import { assert, assertEquals, assertNotEquals } from '@std/assert'
+import { loadConfig } from './config.ts'
+import {
+  briefKey,
+  type BriefSettings,
+  processFile,
+  settingsDigest,
+  sharedKey,
+} from './process.ts'
+
+const base: BriefSettings = {
+  model: 'gpt-4o-mini',
+  template: '0123456789abcdef',
+  style: 'succinct',
+  sections: ['Context', 'Goal'],
+}
+
+Deno.test('settingsDigest: changes with model, template, style and sections', () => {
+  const digest = settingsDigest(base)
+  assertEquals(settingsDigest({ ...base }), digest)
+  for (
+    const changed of [
+      { model: 'gpt-4o' },
+      { template: 'fedcba9876543210' },
+      { style: 'verbose' as const },
+      { sections: ['Goal', 'Context'] },
+    ]
+  ) {
+    assertNotEquals(settingsDigest({ ...base, ...changed }), digest)
+  }
+})
+
+Deno.test('briefKey: depends on path, context and settings', () => {
+  const raw = '// TODO: fix'
+  const settings = settingsDigest(base)
+  const key = briefKey('a.ts', raw, 'const x = 1', settings)
+  assert(key.startsWith('b:'))
+  assertEquals(briefKey('a.ts', raw, 'const x = 1', settings), key)
+  assertNotEquals(briefKey('b.ts', raw, 'const x = 1', settings), key)
+  assertNotEquals(briefKey('a.ts', raw, 'const x = 2', settings), key)
+  assertNotEquals(
+    briefKey(
+      'a.ts',
+      raw,
+      'const x = 1',
+      settingsDigest({ ...base, model: 'o' }),
+    ),
+    key,
+  )
+})
+
+Deno.test('sharedKey: ignores path but not settings', () => {
+  const settings = settingsDigest(base)
+  const key = sharedKey('// TODO: fix', settings)
+  assert(key.startsWith('s:'))
+  assertNotEquals(sharedKey('// TODO: other', settings), key)
+  assertNotEquals(
+    sharedKey('// TODO: fix', settingsDigest({ ...base, style: 'verbose' })),
+    key,
+  )
+})
+
+Deno.test({
+  name: 'processFile: retries missing and malformed batch entries singly',
+  permissions: { net: true, read: true, write: true, env: true },
+  fn: async () => {
+    const cwd = await Deno.makeTempDir()
+    const singles: string[] = []
+    let batches = 0
+    // Batch requests ask for JSON (`text`); the batch drops L3 and malforms L5.
+    const server = Deno.serve(
+      { hostname: '127.0.0.1', port: 0, onListen() {} },
+      async (req) => {
+        const body = await req.json()
+        if (body.text) {
+          batches++
+          return Response.json({
+            output_text: JSON.stringify({
+              todos: [
+                { id: 'L1', comment: '// TODO: a\n// Goal: batch' },
+                { id: 'L5', comment: 42 },
+              ],
+            }),
+          })
+        }
+        const prompt: string = body.input[1].content
+        const tag = ['b', 'c'].find((t) => prompt.includes(`// TODO: ${t}`))!
+        singles.push(tag)
+        return Response.json({
+          output_text: `// TODO: ${tag}\n// Goal: single`,
+        })
+      },
+    )
+    const configPath = `${cwd}/config.json`
+    await Deno.writeTextFile(configPath, '{"cache": false, "format": false}')
+    const { config: cfg } = await loadConfig({
+      cwd,
+      configPath,
+      cli: {
+        endpoint: `http://127.0.0.1:${server.addr.port}/v1/responses`,
+        // Keep each prompt's context to its own TODO line.
+        contextLines: 0,
+      },
+    })
+
+    const file = `${cwd}/a.ts`
+    try {
+      await Deno.writeTextFile(
+        file,
+        '// TODO: a\nx()\n// TODO: b\ny()\n// TODO: c\nz()\n',
+      )
+      const res = await processFile({
+        absPath: file,
+        relPath: 'a.ts',
+        cfg,
+        apiKey: 'k',
+        dryRun: false,
+      })
+      assertEquals(res, { changed: 1, todosFound: 3 })
+      assertEquals(batches, 1)
+      assertEquals(singles.sort(), ['b', 'c'])
+      assertEquals(
+        await Deno.readTextFile(file),
+        [
+          '// TODO: a',
+          '// Goal: batch',
+          'x()',
+          '// TODO: b',
+          '// Goal: single',
+          'y()',
+          '// TODO: c',
+          '// Goal: single',
+          'z()',
+          '',
+        ].join('\n'),
+      )
+    } finally {
+      await server.shutdown()
+    }
+  },
+})
@@ -6,8 +6,14 @@ interface TodoMatch {
   raw: string
   start: number
   end: number
-  style: 'line' | 'block'
+  style: 'line' | 'block' | 'paragraph'
   marker: string
+  close?: string
+  column?: number
+  prefix?: string
+  tag: string
+  annotation?: string
+  meta?: TodoMeta
 }
 
 /** Parameters for rewriteTodos function */
@@ -18,18 +24,52 @@ interface RewriteTodosParams {
   cfg: Cfg
   apiKey: string
   _dryRun: boolean
-  cache: Record<string, string>
+  cache: TodoCache
   fileStart: number
+  limit: Limiter
+  reviewer?: Reviewer
 }
 
-/** Cache structure for TODO expansions */
-type TodoCache = Record<string, string>
+/** A TODO with its prompt context, cache keys and proposed brief. */
+interface Proposal {
+  todo: TodoMatch
+  context: string
+  fileKey: string
+  sharedKey: string
+  todoKey: string
+  comment: string
+  /** Hash of the prompt that produced `comment` (recorded in the cache). */
+  promptHash?: string
+}
 import { detectTodos } from './todos.ts'
-import { renderPromptBatch, runLLM } from './prompt.ts'
+import { commentSyntaxFor } from './comments.ts'
+import { findMarker, markerKind, sectionsFor } from './markers.ts'
+import { keepAnnotation, type TodoMeta } from './metadata.ts'
+import {
+  BATCH_OUTPUT_SCHEMA,
+  parseBatchOutput,
+  promptTemplateHash,
+  renderPrompt,
+  renderPromptBatch,
+  runLLM,
+} from './prompt.ts'
 import { applyRewrites } from './rewrite.ts'
-import { formatFiles } from './format.ts'
-import { gray } from './log.ts'
-import { readCache, writeCache } from './cache.ts'
+import { formatFiles, formatText } from './format.ts'
+import { gray, yellow } from './log.ts'
+import {
+  defaultCachePath,
+  emptyCache,
+  getCached,
+  readCache,
+  setCached,
+  type TodoCache,
+  writeCache,
+} from './cache.ts'
+import { createLimiter, type Limiter } from './pool.ts'
+import { fnv1aHex } from './hash.ts'
+import { mergeIntoWorktree, readIndexBlob, writeIndexBlob } from './staged.ts'
+import { unifiedDiff } from './diff.ts'
+import type { Reviewer } from './review.ts'
 
 /**
  * Process a single file: detect TODOs, expand via LLM, rewrite in-place,
@@ -40,7 +80,18 @@ import { readCache, writeCache } from './cache.ts'
  * @param cfg - Resolved configuration.
  * @param apiKey - OpenAI API key.
  * @param dryRun - When true, do not write changes; print context markers.
- * @returns Object with number of files changed (0/1) and TODOs discovered.
+ * @param limit - Shared limiter bounding in-flight LLM requests across files.
+ * @param cache - Shared cache object; when given, the caller persists it.
+ * @param fromIndex - Read and rewrite the staged blob instead of the working
+ *   tree copy; the rewrite is merged into the working tree when clean.
+ * @param changedLines - When set, only TODOs touching these 1-based lines are
+ *   expanded (e.g., lines added by the staged diff).
+ * @param emitPatch - Return the change as a unified diff in `patch`.
+ * @param patchPath - Path written into the patch headers; defaults to
+ *   `relPath`. `git apply` expects it relative to the repository root.
+ * @param reviewer - Interactive reviewer; only accepted briefs are applied.
+ * @returns Object with number of files changed (0/1), TODOs discovered and,
+ *   when requested, the patch.
  */
 export async function processFile({
   absPath,
@@ -48,19 +99,44 @@ export async function processFile({
   cfg,
   apiKey,
   dryRun,
+  limit = createLimiter(cfg.concurrency),
+  cache: sharedCache,
+  changedLines,
+  fromIndex = false,
+  emitPatch = false,
+  patchPath = relPath,
+  reviewer,
 }: {
   absPath: string
   relPath: string
   cfg: Cfg
   apiKey: string
   dryRun: boolean
-}): Promise<{ changed: number; todosFound: number }> {
-  const content = await Deno.readTextFile(absPath)
-  const { todos } = detectTodos(content)
+  limit?: Limiter
+  cache?: TodoCache
+  changedLines?: Set<number>
+  fromIndex?: boolean
+  emitPatch?: boolean
+  patchPath?: string
+  reviewer?: Reviewer
+}): Promise<{ changed: number; todosFound: number; patch?: string }> {
+  const staged = fromIndex ? await readIndexBlob(absPath) : null
+  const content = staged ? staged.content : await Deno.readTextFile(absPath)
+  const detected = detectTodos(
+    content,
+    commentSyntaxFor(relPath, cfg.comments),
+    cfg.markers.map((m) => m.tag),
+    sectionsFor(cfg.markers, cfg.sections),
+  ).todos
+  const todos = changedLines
+    ? detected.filter((t) => touchesLines(t, changedLines))
+    : detected
   if (!todos.length) return { changed: 0, todosFound: 0 }
 
-  const cachePath = `${Deno.cwd()}/.git/.todoexpand-cache.json`
-  const cache = cfg.cache ? await readCache(cachePath) : {}
+  const cachePath = cfg.cachePath ?? defaultCachePath()
+  const ownsCache = cfg.cache && !sharedCache
+  const cache = sharedCache ??
+    (cfg.cache ? await readCache(cachePath) : emptyCache())
 
   const fileStart = Date.now()
   const updated = await rewriteTodos({
@@ -72,21 +148,49 @@ export async function processFile({
     _dryRun: dryRun,
     cache,
     fileStart,
+    limit,
+    reviewer,
   })
-  if (cfg.cache) await writeCache(cachePath, cache)
+  if (ownsCache) {
+    await writeCache(cachePath, cache, {
+      maxEntries: cfg.cacheMaxEntries,
+      maxBytes: cfg.cacheMaxBytes,
+    })
+  }
   if (updated === null) return { changed: 0, todosFound: todos.length }
 
-  if (!dryRun) {
-    await Deno.writeTextFile(absPath, updated)
+  const patch = emitPatch
+    ? unifiedDiff({ path: patchPath, before: content, after: updated })
+    : undefined
+
+  if (dryRun) {
+    if (!emitPatch) console.log(gray(`--- ${relPath} (dry-run)`))
+  } else if (staged) {
+    // Rewrite the staged blob (formatted in memory, since the file on disk
+    // may differ); carry the change into the working tree only where it
+    // merges cleanly so unstaged edits stay unstaged.
+    const final = cfg.format ? await formatText(absPath, updated) : updated
+    await writeIndexBlob(absPath, staged.mode, final)
+    const merged = await mergeIntoWorktree(absPath, content, final)
+    if (merged !== 'merged') {
+      console.error(
+        yellow(
+          `[index] ${relPath}: staged copy rewritten; working tree left unchanged (${merged})`,
+        ),
+      )
+    }
   } else {
-    console.log(gray(`--- ${relPath} (dry-run)`))
+    await Deno.writeTextFile(absPath, updated)
   }
 
-  if (!dryRun && cfg.format) {
+  // Index rewrites were formatted before `git update-index` above.
+  if (!dryRun && !staged && cfg.format) {
     await formatFiles([absPath])
   }
 
-  return { changed: 1, todosFound: todos.length }
+  return emitPatch
+    ? { changed: 1, todosFound: todos.length, patch }
+    : { changed: 1, todosFound: todos.length }
 }
 
 /**
@@ -100,6 +204,8 @@ export async function processFile({
  * @param apiKey - OpenAI API key for the LLM call.
  * @param dryRun - If true, only logs; still computes rewritten text in-memory.
  * @param cache - Mutable cache object updated with new LLM outputs.
+ * @param limit - Limiter that every LLM request is scheduled through.
+ * @param reviewer - When set, proposals are reviewed before being applied.
  */
 async function rewriteTodos({
   content,
@@ -110,14 +216,31 @@ async function rewriteTodos({
   _dryRun,
   cache,
   fileStart,
+  limit,
+  reviewer,
 }: RewriteTodosParams): Promise<string | null> {
-  let text = content
-  // Process from bottom to top to keep indices stable
+  const language = langFromPath(relPath)
+  // Per-tag prompt settings (e.g., FIXME briefs with their own sections).
+  const briefFor = (todo: TodoMatch) => {
+    const marker = findMarker(cfg.markers, todo.tag)
+    return {
+      tag: todo.tag,
+      kind: markerKind(marker),
+      meta: todo.meta,
+      style: marker.style ?? cfg.style,
+      sections: marker.sections ?? cfg.sections,
+    }
+  }
+  // Cached briefs only match when generated under the same settings.
+  const template = await promptTemplateHash(cfg.promptTemplate)
+  const settingsOf = (todo: TodoMatch) => {
+    const { style, sections } = briefFor(todo)
+    return settingsDigest({ model: cfg.model, template, style, sections })
+  }
+
   const sorted = [...todos].sort((a, b) => b.start - a.start)
-  const pending: TodoMatch[] = []
-  const contexts: string[] = []
-  const fileKeys: string[] = []
-  const todoKeys: string[] = []
+  const proposals: Proposal[] = []
+  const pending: Proposal[] = []
   for (const todo of sorted) {
     // Per-file timeout check
     if (Date.now() - fileStart > (cfg.perFileTimeoutMs ?? 120000)) {
@@ -129,58 +252,198 @@ async function rewriteTodos({
       break
     }
 
-    const codeContext = extractContext(text, todo, cfg.contextLines)
-    const fileKey = cacheKey(relPath, todo.raw)
     const tKey = todoKey(todo.raw)
-    const cached = cfg.cache ? (cache[fileKey] ?? cache[tKey]) : null
+    if (reviewer?.rejected.has(tKey)) continue
+    const context = extractContext(content, todo, cfg.contextLines)
+    const settings = settingsOf(todo)
+    const proposal: Proposal = {
+      todo,
+      context,
+      fileKey: briefKey(relPath, todo.raw, context, settings),
+      sharedKey: sharedKey(todo.raw, settings),
+      todoKey: tKey,
+      comment: '',
+    }
+    // Reusing a brief written for another file is opt-in.
+    const cached = cfg.cache
+      ? (getCached(cache, proposal.fileKey) ??
+        (cfg.cacheAcrossFiles
+          ? getCached(cache, proposal.sharedKey)
+          : undefined))
+      : undefined
     if (cached) {
-      if (cfg.cache && !cache[fileKey]) cache[fileKey] = cached
-      const replaced = applyRewrites({
-        content: text,
-        todo,
-        newComment: cached,
-      })
-      text = replaced
-      continue
+      if (!cache.entries[proposal.fileKey]) {
+        cache.entries[proposal.fileKey] = { ...cached }
+      }
+      proposal.comment = withAnnotation(todo, cached.comment)
+      proposals.push(proposal)
+    } else {
+      pending.push(proposal)
+    }
+  }
+
+  const remember = (p: Proposal) => {
+    const entry = {
+      comment: p.comment,
+      model: cfg.model,
+      promptHash: p.promptHash ?? '',
+      sections: briefFor(p.todo).sections,
     }
+    setCached(cache, p.fileKey, entry)
+    if (cfg.cacheAcrossFiles) setCached(cache, p.sharedKey, entry)
+  }
+  const requestSingle = async (p: Proposal) => {
+    const { todo, context } = p
+    const single = await renderPrompt({
+      filePath: relPath,
+      language,
+      todoComment: todo.raw,
+      codeContext: context,
+      ...briefFor(todo),
+      template: cfg.promptTemplate,
+    })
+    const out = await limit(() => runLLM({ prompt: single, apiKey, cfg }))
+    p.promptHash = fnv1aHex(single)
+    return out && withAnnotation(todo, out.trim())
+  }
 
-    pending.push(todo)
-    contexts.push(codeContext)
-    fileKeys.push(fileKey)
-    todoKeys.push(tKey)
+  // One batch per distinct style/sections combination.
+  const batches = new Map<string, Proposal[]>()
+  for (const p of pending) {
+    const { style, sections } = briefFor(p.todo)
+    const key = JSON.stringify([style, sections])
+    batches.set(key, [...(batches.get(key) ?? []), p])
   }
 
-  if (pending.length) {
+  await Promise.all([...batches.values()].map(async (batch) => {
+    const ids = batch.map((p) => `L${p.todo.start + 1}`)
+    const { style, sections } = briefFor(batch[0].todo)
     const rendered = await renderPromptBatch({
       filePath: relPath,
-      language: langFromPath(relPath),
-      todos: pending.map((t, i) => ({
-        todoComment: t.raw,
-        codeContext: contexts[i],
-      })),
-      style: cfg.style,
-      sections: cfg.sections,
+      language,
+      todos: batch.map((p, i) => {
+        const { tag, kind, meta } = briefFor(p.todo)
+        return {
+          id: ids[i],
+          todoComment: p.todo.raw,
+          codeContext: p.context,
+          tag,
+          kind,
+          meta,
+        }
+      }),
+      style,
+      sections,
+      template: cfg.promptTemplate,
     })
 
-    const out = await runLLM({ prompt: rendered, apiKey, cfg })
-    if (out) {
-      const parts = out.split('\n---\n')
-      if (parts.length === pending.length) {
-        for (let i = 0; i < pending.length; i++) {
-          const todo = pending[i]
-          const newComment = parts[i].trim()
-          if (cfg.cache) {
-            cache[fileKeys[i]] = newComment
-            cache[todoKeys[i]] = newComment
-          }
-          const replaced = applyRewrites({ content: text, todo, newComment })
-          text = replaced
+    const out = await limit(() =>
+      runLLM({ prompt: rendered, apiKey, cfg, schema: BATCH_OUTPUT_SCHEMA })
+    )
+    const byId = parseBatchOutput(out)
+
+    // Missing or malformed entries fall back to one request per TODO.
+    const results = await Promise.all(
+      batch.map((p, i) => {
+        const found = byId.get(ids[i])
+        if (found) {
+          p.promptHash = fnv1aHex(rendered)
+          return withAnnotation(p.todo, found)
         }
+        if (cfg.verboseLogs) {
+          console.log(gray(`[retry] ${relPath}:${ids[i]} requested singly`))
+        }
+        return requestSingle(p)
+      }),
+    )
+
+    batch.forEach((p, i) => {
+      p.comment = results[i]?.trim() ?? ''
+      if (!p.comment) return
+      // Under review, only accepted briefs are cached.
+      if (cfg.cache && !reviewer) remember(p)
+      proposals.push(p)
+    })
+  }))
+
+  const accepted = reviewer
+    ? await reviewer.turn(() =>
+      reviewProposals(proposals, reviewer, relPath, requestSingle)
+    )
+    : proposals
+  if (reviewer && cfg.cache) accepted.forEach(remember)
+
+  // Apply from bottom to top to keep line indices stable.
+  let text = content
+  for (const p of accepted.sort((a, b) => b.todo.start - a.todo.start)) {
+    text = applyRewrites({ content: text, todo: p.todo, newComment: p.comment })
+  }
+  return text === content ? null : text
+}
+
+/**
+ * Ask the reviewer about each proposal in file order. Regenerated briefs are
+ * reviewed again; rejected TODOs are remembered for the rest of the run and
+ * skipped here too, since proposals (for repeats in this file, or files built
+ * in parallel) may predate the rejection.
+ * @returns Accepted proposals, with edited comments where the user edited.
+ */
+async function reviewProposals(
+  proposals: Proposal[],
+  reviewer: Reviewer,
+  relPath: string,
+  requestSingle: (p: Proposal) => Promise<string | null>,
+): Promise<Proposal[]> {
+  const accepted: Proposal[] = []
+  for (const p of [...proposals].sort((a, b) => a.todo.start - b.todo.start)) {
+    while (p.comment && !reviewer.rejected.has(p.todoKey)) {
+      const decision = await reviewer.review({
+        relPath,
+        line: p.todo.start + 1,
+        todo: p.todo.raw,
+        context: p.context,
+        proposed: p.comment,
+      })
+      if (decision.action === 'accept') {
+        accepted.push({ ...p, comment: decision.comment })
+        break
+      }
+      if (decision.action === 'reject') {
+        reviewer.rejected.add(p.todoKey)
+        break
+      }
+      p.comment = (await requestSingle(p))?.trim() ?? ''
+      if (!p.comment) {
+        console.error(
+          yellow(`[review] ${relPath}:${p.todo.start + 1}: no brief returned`),
+        )
       }
     }
   }
+  return accepted
+}
 
-  return text === content ? null : text
+/**
+ * Carry the TODO's annotation (e.g., `(alice, #123)`) into the brief header.
+ * @param todo - Original TODO.
+ * @param comment - Brief from the LLM or cache.
+ */
+function withAnnotation(todo: TodoMatch, comment: string) {
+  return todo.annotation
+    ? keepAnnotation(comment, todo.tag, todo.annotation)
+    : comment
+}
+
+/**
+ * Check whether any line of a TODO (1-based) is in `lines`.
+ * @param todo - TODO match with zero-based `start`/`end`.
+ * @param lines - Set of 1-based line numbers.
+ */
+function touchesLines(todo: TodoMatch, lines: Set<number>) {
+  for (let i = todo.start; i <= todo.end; i++) {
+    if (lines.has(i + 1)) return true
+  }
+  return false
 }
 
 /**
@@ -198,30 +461,60 @@ function extractContext(content: string, todo: TodoMatch, lines: number) {
 }
 
 /**
- * FNV-1a 32-bit hash to compact cache keys.
- * @param str - Input string.
- * @returns Lowercase 8-hex-digit string.
+ * Build a file-independent key from TODO content only; identifies rejected
+ * TODOs during review.
+ * @param raw - Raw TODO text.
  */
-function fnv1aHex(str: string): string {
-  let h = 0x811c9dc5 >>> 0
-  for (let i = 0; i < str.length; i++) {
-    h ^= str.charCodeAt(i)
-    h = (h + ((h << 1) + (h << 4) + (h << 7) + (h << 8) + (h << 24))) >>> 0
-  }
-  return h.toString(16).padStart(8, '0')
+export function todoKey(raw: string): string {
+  return 't:' + fnv1aHex(raw)
+}
+
+/**
+ * Settings that shape a brief; changing any of them invalidates cached
+ * briefs.
+ */
+export type BriefSettings = {
+  model: string
+  /** Hash from `promptTemplateHash`. */
+  template: string
+  style: Cfg['style']
+  sections: string[]
 }
 
 /**
- * Build stable cache key per-file and TODO content.
+ * Digest of the settings a brief is generated with, for use in cache keys.
+ * @param settings - Model, template hash, style and sections.
+ */
+export function settingsDigest(settings: BriefSettings): string {
+  const { model, template, style, sections } = settings
+  return fnv1aHex(JSON.stringify([model, template, style, sections]))
+}
+
+/**
+ * Build the cache key for a brief in one file: path, TODO text, a digest of
+ * the surrounding code and the settings digest.
  * @param path - Relative file path.
  * @param raw - Raw TODO text.
+ * @param context - Code context sent with the TODO.
+ * @param settings - Digest from `settingsDigest`.
  */
-function cacheKey(path: string, raw: string) {
-  return 'f:' + fnv1aHex(path + '::' + raw)
+export function briefKey(
+  path: string,
+  raw: string,
+  context: string,
+  settings: string,
+): string {
+  return 'b:' + fnv1aHex([path, raw, fnv1aHex(context), settings].join('::'))
 }
 
-function todoKey(raw: string) {
-  return 't:' + fnv1aHex(raw)
+/**
+ * Build the file-independent cache key used when `cacheAcrossFiles` is on:
+ * TODO text and settings only.
+ * @param raw - Raw TODO text.
+ * @param settings - Digest from `settingsDigest`.
+ */
+export function sharedKey(raw: string, settings: string): string {
+  return 's:' + fnv1aHex(settings + '::' + raw)
 }
 
 /**
@@ -0,0 +1,101 @@
+import { assertEquals } from '@std/assert'
+import {
+  fillTemplate,
+  parseBatchOutput,
+  renderPrompt,
+  renderPromptBatch,
+} from './prompt.ts'
+
+Deno.test('parseBatchOutput: maps entries by id', () => {
+  const text = JSON.stringify({
+    todos: [
+      { id: 'L3', comment: '// TODO: a\n// Goal: x ' },
+      { id: 'L9', comment: '// TODO: b' },
+    ],
+  })
+  const out = parseBatchOutput(text)
+  assertEquals(out.get('L3'), '// TODO: a\n// Goal: x')
+  assertEquals(out.get('L9'), '// TODO: b')
+})
+
+Deno.test('parseBatchOutput: skips malformed entries', () => {
+  const text = [
+    '```json',
+    JSON.stringify({
+      todos: [
+        { id: 'L1', comment: '' },
+        { id: 2, comment: 'numeric id' },
+        { id: 'L4' },
+        null,
+        { id: 'L5', comment: 'ok' },
+      ],
+    }),
+    '```',
+  ].join('\n')
+  const out = parseBatchOutput(text)
+  assertEquals([...out.keys()], ['L5'])
+})
+
+Deno.test('parseBatchOutput: returns empty map for non-JSON replies', () => {
+  assertEquals(parseBatchOutput('first\n---\nsecond').size, 0)
+  assertEquals(parseBatchOutput(null).size, 0)
+  assertEquals(parseBatchOutput('{"items":[]}').size, 0)
+})
+
+Deno.test('fillTemplate: fills known placeholders and keeps unknown ones', () => {
+  assertEquals(
+    fillTemplate('{{ filePath }} in {{language}}: {{other}}', {
+      filePath: 'a.ts',
+      language: 'TypeScript',
+    }),
+    'a.ts in TypeScript: {{other}}',
+  )
+})
+
+Deno.test({
+  name: 'renderPrompt: configured template places the TODO and context',
+  permissions: { read: true, write: true },
+  fn: async () => {
+    const dir = await Deno.makeTempDir()
+    const template = `${dir}/team.prompt.md`
+    await Deno.writeTextFile(
+      template,
+      [
+        '# Team prompt',
+        'Rewrite {{todo}} from {{filePath}} ({{language}}).',
+        'Sections: {{sections}}; style: {{style}}.',
+        'Code: {{context}}',
+      ].join('\n'),
+    )
+    const prompt = await renderPrompt({
+      filePath: 'src/a.ts',
+      language: 'TypeScript',
+      todoComment: '// TODO: fix',
+      codeContext: 'const x = 1',
+      style: 'succinct',
+      sections: ['Goal', 'Steps'],
+      template,
+    })
+    assertEquals(prompt.split('\n').slice(0, 3), [
+      'Rewrite // TODO: fix from src/a.ts (TypeScript).',
+      'Sections: Goal, Steps; style: succinct.',
+      'Code: const x = 1',
+    ])
+    assertEquals(prompt.includes('Original TODO:'), false)
+    assertEquals(prompt.includes('Nearby code'), false)
+
+    const batch = await renderPromptBatch({
+      filePath: 'src/a.ts',
+      language: 'TypeScript',
+      todos: [{ id: 'L1', todoComment: '// TODO: fix', codeContext: 'x' }],
+      style: 'succinct',
+      sections: ['Goal'],
+      template,
+    })
+    assertEquals(
+      batch.split('\n')[0],
+      'Rewrite (see the TODOs below) from src/a.ts (TypeScript).',
+    )
+    assertEquals(batch.includes('TODO id=L1:'), true)
+  },
+})
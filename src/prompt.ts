@@ -1,5 +1,9 @@
 import type { Cfg } from './config.ts'
 import { join } from '@std/path'
+import { getProvider, type LLMFailure } from './providers.ts'
+import { gray } from './log.ts'
+import { cassetteKey, readCassette, writeCassette } from './cassette.ts'
+import { formatTodoMeta, type TodoMeta } from './metadata.ts'
 
 function minifyTemplate(t: string): string {
   const lines = t
@@ -13,10 +17,22 @@ function minifyTemplate(t: string): string {
 }
 
 /**
- * Load the external prompt template if present; otherwise null to use fallback.
- * @returns Template string or null when not found.
+ * Load the prompt template: the configured `promptTemplate`, else
+ * `prompts/todo_expander.compact.prompt.md` when present.
+ * @param path - Configured template path (resolved by `loadConfig`).
+ * @returns Template string, or null to use the inline fallback.
+ * @throws When a configured template cannot be read.
  */
-async function loadTemplate(): Promise<string | null> {
+async function loadTemplate(path?: string): Promise<string | null> {
+  if (path) {
+    try {
+      return minifyTemplate(await Deno.readTextFile(path))
+    } catch (err) {
+      throw new Error(
+        `Cannot read promptTemplate ${path}: ${(err as Error).message}`,
+      )
+    }
+  }
   // Prefer external prompt file for auditability
   const candidates = [
     join(Deno.cwd(), 'prompts/todo_expander.compact.prompt.md'),
@@ -32,23 +48,71 @@ async function loadTemplate(): Promise<string | null> {
   return null
 }
 
+/**
+ * Hash the prompt instructions: the external template (or the inline
+ * fallback) and the system prompt. Cache keys include it, so editing the
+ * template invalidates cached briefs.
+ * @param path - Configured template path (`cfg.promptTemplate`).
+ * @returns 16-hex-digit prefix of a SHA-256 digest.
+ */
+export async function promptTemplateHash(path?: string): Promise<string> {
+  const template = await loadTemplate(path)
+  const key = await cassetteKey({ template, system: SYSTEM_PROMPT })
+  return key.slice(0, 16)
+}
+
 /**
  * Replace {{var}} placeholders in a template string.
  * @param tpl - Template string with `{{name}}` placeholders.
  * @param vars - Mapping of placeholder names to values.
- * @returns Interpolated template string.
+ * @returns Interpolated template string; unknown placeholders are kept.
  */
-function _fillTemplate(tpl: string, vars: Record<string, string>): string {
-  let out = tpl
-  for (const [k, v] of Object.entries(vars)) {
-    // Use a more compatible regex pattern construction
-    const pattern = '\\{\\{' + k + '\\}\\}'
-    const re = new RegExp(pattern, 'g')
-    out = out.replace(re, v)
+export function fillTemplate(
+  tpl: string,
+  vars: Record<string, string>,
+): string {
+  return tpl.replace(
+    /\{\{\s*(\w+)\s*\}\}/g,
+    (written, name) => Object.hasOwn(vars, name) ? vars[name] : written,
+  )
+}
+
+/**
+ * Placeholder values for a template, including the snake_case names used by
+ * `prompts/todo_expander.prompt.md`.
+ */
+function templateVars({
+  filePath,
+  language,
+  todo,
+  context,
+  style,
+  sections,
+}: {
+  filePath: string
+  language: string
+  todo: string
+  context: string
+  style: Cfg['style']
+  sections: string[]
+}): Record<string, string> {
+  return {
+    filePath,
+    file_path: filePath,
+    language,
+    todo,
+    todo_comment: todo,
+    context,
+    code_context: context,
+    style,
+    sections: sections.join(', '),
   }
-  return out
 }
 
+/** Whether a template places any of the named placeholders itself. */
+const usesPlaceholder = (tpl: string | null, names: string[]) =>
+  !!tpl && names.some((n) => new RegExp(`\\{\\{\\s*${n}\\s*\\}\\}`).test(tpl))
+
 /**
  * Build the final prompt used for the LLM request.
  * Prefers external template; falls back to a concise inline prompt.
@@ -59,6 +123,12 @@ function _fillTemplate(tpl: string, vars: Record<string, string>): string {
  * @param codeContext - Nearby code used to ground instructions.
  * @param style - Succinct or verbose output preference.
  * @param sections - Section names to include in the brief.
+ * @param tag - Marker tag that matched (e.g., `FIXME`); `TODO` adds nothing.
+ * @param kind - What the tag asks for (e.g., `bug fix`).
+ * @param meta - Owner/issue/priority/due parsed from the TODO, if any.
+ * @param template - Configured template path (`cfg.promptTemplate`); its
+ *   placeholders are filled, and when it places `{{todo}}` or `{{context}}`
+ *   itself, they are not appended again.
  * @returns Fully-rendered prompt string.
  */
 export async function renderPrompt({
@@ -68,6 +138,10 @@ export async function renderPrompt({
   codeContext,
   style,
   sections,
+  tag = 'TODO',
+  kind = 'task',
+  meta,
+  template,
 }: {
   filePath: string
   language: string
@@ -75,8 +149,12 @@ export async function renderPrompt({
   codeContext: string
   style: Cfg['style']
   sections: string[]
+  tag?: string
+  kind?: string
+  meta?: TodoMeta
+  template?: string
 }): Promise<string> {
-  const tpl = await loadTemplate()
+  const tpl = await loadTemplate(template)
   const defaultSections = [
     'Context',
     'Goal',
@@ -90,8 +168,19 @@ export async function renderPrompt({
     )
 
   const parts: string[] = []
-  if (tpl) parts.push(tpl)
-  else {
+  if (tpl) {
+    parts.push(fillTemplate(
+      tpl,
+      templateVars({
+        filePath,
+        language,
+        todo: todoComment,
+        context: codeContext,
+        style,
+        sections,
+      }),
+    ))
+  } else {
     parts.push(
       'Task: Rewrite the TODO into a structured brief as a comment. Return only the rewritten comment.',
     )
@@ -102,31 +191,104 @@ export async function renderPrompt({
   if (!isDefaultSections) {
     parts.push(`Sections override: ${sections.join(', ')}`)
   }
-  parts.push(
-    'Original TODO:',
-    todoComment,
-    '',
-    'Nearby code (context only):',
-    codeContext,
-  )
+  if (tag.toUpperCase() !== 'TODO') parts.push(`Marker: ${tag} (${kind})`)
+  const metadata = meta ? formatTodoMeta(meta) : ''
+  if (metadata) {
+    parts.push(`Metadata: ${metadata} (keep the annotation in the header)`)
+  }
+  if (!usesPlaceholder(tpl, ['todo', 'todo_comment'])) {
+    parts.push('Original TODO:', todoComment, '')
+  }
+  if (!usesPlaceholder(tpl, ['context', 'code_context'])) {
+    parts.push('Nearby code (context only):', codeContext)
+  }
   return parts.join('\n')
 }
 
-/** Build a batched prompt for multiple TODOs within the same file. */
+/**
+ * JSON schema for batched rewrites: one `{ id, comment }` entry per TODO.
+ * Sent as the Responses API structured output format.
+ */
+export const BATCH_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    todos: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          comment: { type: 'string' },
+        },
+        required: ['id', 'comment'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['todos'],
+  additionalProperties: false,
+} as const
+
+/**
+ * Parse a batched JSON reply into a map of TODO id to rewritten comment.
+ * Entries without a string id or a non-empty comment are skipped, so callers
+ * can retry those TODOs individually.
+ *
+ * @param text - Raw model output (JSON, optionally wrapped in a code fence).
+ * @returns Map of id to trimmed comment; empty when the reply is not valid JSON.
+ */
+export function parseBatchOutput(text: string | null): Map<string, string> {
+  const out = new Map<string, string>()
+  if (!text) return out
+  const body = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+  let data: unknown
+  try {
+    data = JSON.parse(body)
+  } catch {
+    return out
+  }
+  const entries = (data as { todos?: unknown })?.todos
+  if (!Array.isArray(entries)) return out
+  for (const entry of entries) {
+    const { id, comment } = (entry ?? {}) as { id?: unknown; comment?: unknown }
+    if (typeof id !== 'string' || typeof comment !== 'string') continue
+    const trimmed = comment.trim()
+    if (trimmed && !out.has(id)) out.set(id, trimmed)
+  }
+  return out
+}
+
+/**
+ * Build a batched prompt for multiple TODOs within the same file. Non-TODO
+ * markers are labeled with their tag and kind (e.g., `FIXME (bug fix)`), and
+ * annotated TODOs with their metadata (e.g., `owner=alice`).
+ */
 export async function renderPromptBatch({
   filePath,
   language,
   todos,
   style,
   sections,
+  template,
 }: {
   filePath: string
   language: string
-  todos: { todoComment: string; codeContext: string }[]
+  todos: {
+    id: string
+    todoComment: string
+    codeContext: string
+    tag?: string
+    kind?: string
+    meta?: TodoMeta
+  }[]
   style: Cfg['style']
   sections: string[]
+  template?: string
 }): Promise<string> {
-  const tpl = await loadTemplate()
+  const tpl = await loadTemplate(template)
   const defaultSections = [
     'Context',
     'Goal',
@@ -140,8 +302,21 @@ export async function renderPromptBatch({
     )
 
   const parts: string[] = []
-  if (tpl) parts.push(tpl)
-  else {
+  if (tpl) {
+    // Each TODO and its context follow the template, labeled by id.
+    const below = '(see the TODOs below)'
+    parts.push(fillTemplate(
+      tpl,
+      templateVars({
+        filePath,
+        language,
+        todo: below,
+        context: below,
+        style,
+        sections,
+      }),
+    ))
+  } else {
     parts.push(
       'Task: Rewrite the TODO into a structured brief as a comment. Return only the rewritten comment.',
     )
@@ -153,72 +328,100 @@ export async function renderPromptBatch({
     parts.push(`Sections override: ${sections.join(', ')}`)
   }
   parts.push(
-    'Return rewritten TODOs separated by --- on their own line in the same order.',
+    'Return JSON {"todos":[{"id":"<id>","comment":"<rewritten comment>"}]} with exactly one entry per TODO id below.',
   )
 
   todos.forEach((t, idx) => {
+    const marker = t.tag && t.tag.toUpperCase() !== 'TODO'
+      ? ` marker=${t.tag} (${t.kind ?? 'task'})`
+      : ''
+    const metadata = t.meta ? formatTodoMeta(t.meta) : ''
     parts.push(
-      `TODO ${idx + 1}:`,
+      `TODO id=${t.id}${marker}${metadata ? ` metadata: ${metadata}` : ''}:`,
       t.todoComment,
       '',
       'Nearby code (context only):',
       t.codeContext,
     )
-    if (idx < todos.length - 1) parts.push('---')
+    if (idx < todos.length - 1) parts.push('')
   })
   return parts.join('\n')
 }
 
+/** System instructions shared by every provider. */
+const SYSTEM_PROMPT =
+  'You are a senior prompt engineer. Rewrite any inline TODO into a structured brief with sections: Context; Goal; Steps (re-runnable & idempotent); Constraints; Acceptance. Preserve current runtime behavior and visible UI. Keep the smallest possible diff; do not alter surrounding code or identifiers. Use the same comment style as the original (// vs /* */ vs #). Output only the rewritten comment in the same comment style; no extra text.'
+
 /**
- * Call the OpenAI Responses API and return trimmed text output.
+ * Call the configured LLM provider and return trimmed text output.
  * @param prompt - Rendered prompt string.
- * @param apiKey - OpenAI API key.
- * @param cfg - Resolved configuration (model/endpoint).
- * @returns Rewritten comment text, or null on error.
+ * @param apiKey - API key for the provider (may be empty for keyless providers).
+ * @param cfg - Resolved configuration (provider/model/endpoint/cassette).
+ * @param schema - Optional JSON schema requested as structured output.
+ * @returns Rewritten comment text (or JSON when `schema` is set), or null on error.
  */
 export async function runLLM({
   prompt,
   apiKey,
   cfg,
+  schema,
 }: {
   prompt: string
   apiKey: string
   cfg: Cfg
+  schema?: Record<string, unknown>
 }): Promise<string | null> {
-  const body: Record<string, unknown> = {
-    model: cfg.model,
-    input: [
-      {
-        role: 'system',
-        content:
-          'You are a senior prompt engineer. Rewrite any inline TODO into a structured brief with sections: Context; Goal; Steps (re-runnable & idempotent); Constraints; Acceptance. Preserve current runtime behavior and visible UI. Keep the smallest possible diff; do not alter surrounding code or identifiers. Use the same comment style as the original (// vs /* */ vs #). Output only the rewritten comment in the same comment style; no extra text.',
-      },
-      { role: 'user', content: prompt },
-    ],
+  const adapter = getProvider(cfg.provider)
+  const request = adapter.buildRequest(
+    { system: SYSTEM_PROMPT, prompt, schema },
+    cfg,
+    apiKey,
+  )
+
+  const finish = (data: unknown): string | null => {
+    const usage = adapter.extractUsage(data)
+    if (usage && cfg.verboseLogs) {
+      console.log(
+        gray(
+          `[usage] ${adapter.name} in=${usage.inputTokens} out=${usage.outputTokens}`,
+        ),
+      )
+    }
+    const text = adapter.parseResponse(data)
+    return text ? text.trim() : null
   }
 
-  const attemptOnce = async () => {
+  // Cassette replay answers from disk and never touches the network.
+  const cassette = cfg.cassette
+  const key = cassette ? await cassetteKey(request.body) : ''
+  if (cassette?.mode === 'replay') {
+    const entry = await readCassette(cassette.dir, key)
+    if (!entry) {
+      console.error(`LLM replay miss: no cassette ${key} in ${cassette.dir}`)
+      return null
+    }
+    return finish(entry.response)
+  }
+
+  const attemptOnce = async (): Promise<
+    { ok: true; data: unknown } | ({ ok: false } & LLMFailure)
+  > => {
     const controller = new AbortController()
     const timeout = setTimeout(() => controller.abort(), cfg.timeout)
     try {
-      const res = await fetch(cfg.endpoint, {
+      const res = await fetch(request.url, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify(body),
+        headers: request.headers,
+        body: JSON.stringify(request.body),
         signal: controller.signal,
       })
       if (!res.ok) {
-        const text = await res.text()
-        return { ok: false, status: res.status, text }
+        await res.body?.cancel()
+        return { ok: false, status: res.status }
       }
-      const data = await res.json()
-      const text = data.output_text || data.content?.[0]?.text || null
-      return { ok: true, text }
+      return { ok: true, data: await res.json() }
     } catch (err) {
-      return { ok: false, error: err }
+      return { ok: false, error: err as Error }
     } finally {
       clearTimeout(timeout)
     }
@@ -228,25 +431,17 @@ export async function runLLM({
   for (let attempt = 1; attempt <= totalAttempts; attempt++) {
     const res = await attemptOnce()
     if (res.ok) {
-      if (!res.text) return null
-      return (res.text as string).trim()
+      if (cassette?.mode === 'record') {
+        await writeCassette(cassette.dir, key, {
+          provider: adapter.name,
+          request: request.body,
+          response: res.data,
+        })
+      }
+      return finish(res.data)
     }
 
-    // classify error
-    const status = (res as { status?: number }).status
-    const err = (res as { error?: Error & { code?: string } }).error
-    const isAbort = err &&
-      (err.name === 'AbortError' ||
-        (err as { code?: string }).code === 'AbortError')
-    const retriable = isAbort ||
-      (status !== undefined &&
-        (status === 408 || status === 429 || (status >= 500 && status <= 599)))
-
-    const detail = status
-      ? `status=${status}`
-      : isAbort
-      ? `timeout after ${cfg.timeout}ms`
-      : err?.message || 'network error'
+    const { retriable, detail } = adapter.classifyError(res, cfg)
     if (attempt < totalAttempts && retriable) {
       const delay = Math.min(
         5000,
@@ -0,0 +1,183 @@
+import { assertEquals } from '@std/assert'
+import { loadConfig } from './config.ts'
+import { runLLM } from './prompt.ts'
+import type { ProviderName } from './providers.ts'
+
+type Seen = { path: string; headers: Headers; body: Record<string, unknown> }
+
+/**
+ * Start a local fake provider that records requests and answers with the
+ * queued responses in order.
+ */
+function fakeServer(responses: { status?: number; json?: unknown }[]) {
+  const seen: Seen[] = []
+  const server = Deno.serve(
+    { hostname: '127.0.0.1', port: 0, onListen() {} },
+    async (req) => {
+      seen.push({
+        path: new URL(req.url).pathname,
+        headers: req.headers,
+        body: await req.json(),
+      })
+      const next = responses.shift() ?? { status: 500 }
+      return Response.json(next.json ?? {}, { status: next.status ?? 200 })
+    },
+  )
+  const url = `http://127.0.0.1:${server.addr.port}`
+  return { url, seen, close: () => server.shutdown() }
+}
+
+async function cfgFor(provider: ProviderName, endpoint: string, retries = 0) {
+  const cwd = await Deno.makeTempDir()
+  const configPath = `${cwd}/config.json`
+  await Deno.writeTextFile(configPath, '{}')
+  const { config } = await loadConfig({
+    cwd,
+    configPath,
+    cli: { provider, endpoint, retries, retryBackoffMs: 1 },
+  })
+  return config
+}
+
+const permissions = {
+  net: true,
+  read: true,
+  write: true,
+  env: true,
+} as const
+
+Deno.test({
+  name: 'providers: openai Responses request and output_text parsing',
+  permissions,
+  fn: async () => {
+    const srv = fakeServer([
+      { json: { output_text: ' // TODO: done ', usage: { input_tokens: 3 } } },
+    ])
+    try {
+      const cfg = await cfgFor('openai', `${srv.url}/v1/responses`)
+      const out = await runLLM({
+        prompt: 'p',
+        apiKey: 'sk-test',
+        cfg,
+        schema: { type: 'object' },
+      })
+      assertEquals(out, '// TODO: done')
+      const [req] = srv.seen
+      assertEquals(req.path, '/v1/responses')
+      assertEquals(req.headers.get('authorization'), 'Bearer sk-test')
+      assertEquals(req.body.model, 'gpt-4o-mini')
+      assertEquals(
+        (req.body.text as { format: { type: string } }).format.type,
+        'json_schema',
+      )
+    } finally {
+      await srv.close()
+    }
+  },
+})
+
+Deno.test({
+  name: 'providers: openai-chat request and choices parsing',
+  permissions,
+  fn: async () => {
+    const srv = fakeServer([
+      {
+        json: {
+          choices: [{ message: { role: 'assistant', content: '# TODO: x' } }],
+          usage: { prompt_tokens: 1, completion_tokens: 2 },
+        },
+      },
+    ])
+    try {
+      const cfg = await cfgFor('openai-chat', `${srv.url}/v1/chat/completions`)
+      const out = await runLLM({ prompt: 'p', apiKey: 'sk-test', cfg })
+      assertEquals(out, '# TODO: x')
+      const [req] = srv.seen
+      const messages = req.body.messages as { role: string }[]
+      assertEquals(messages.map((m) => m.role), ['system', 'user'])
+      assertEquals(req.body.response_format, undefined)
+    } finally {
+      await srv.close()
+    }
+  },
+})
+
+Deno.test({
+  name: 'providers: anthropic Messages request and content parsing',
+  permissions,
+  fn: async () => {
+    const srv = fakeServer([
+      {
+        json: {
+          content: [{ type: 'text', text: '/* TODO: a' }, {
+            type: 'text',
+            text: ' */',
+          }],
+          usage: { input_tokens: 5, output_tokens: 7 },
+        },
+      },
+    ])
+    try {
+      const cfg = await cfgFor('anthropic', `${srv.url}/v1/messages`)
+      assertEquals(cfg.model, 'claude-3-5-haiku-latest')
+      const out = await runLLM({ prompt: 'p', apiKey: 'ak-test', cfg })
+      assertEquals(out, '/* TODO: a */')
+      const [req] = srv.seen
+      assertEquals(req.headers.get('x-api-key'), 'ak-test')
+      assertEquals(req.headers.get('anthropic-version'), '2023-06-01')
+      assertEquals(typeof req.body.system, 'string')
+      assertEquals(typeof req.body.max_tokens, 'number')
+    } finally {
+      await srv.close()
+    }
+  },
+})
+
+Deno.test({
+  name: 'providers: ollama chat request without key and schema as format',
+  permissions,
+  fn: async () => {
+    const srv = fakeServer([
+      {
+        json: {
+          message: { role: 'assistant', content: '{"todos":[]}' },
+          prompt_eval_count: 4,
+          eval_count: 2,
+        },
+      },
+    ])
+    try {
+      const cfg = await cfgFor('ollama', `${srv.url}/api/chat`)
+      const schema = { type: 'object' }
+      const out = await runLLM({ prompt: 'p', apiKey: '', cfg, schema })
+      assertEquals(out, '{"todos":[]}')
+      const [req] = srv.seen
+      assertEquals(req.headers.get('authorization'), null)
+      assertEquals(req.body.stream, false)
+      assertEquals(req.body.format, schema)
+    } finally {
+      await srv.close()
+    }
+  },
+})
+
+Deno.test({
+  name: 'providers: retries retriable statuses, not client errors',
+  permissions,
+  fn: async () => {
+    const srv = fakeServer([
+      { status: 503 },
+      { json: { output_text: 'ok' } },
+      { status: 400 },
+      { json: { output_text: 'unreached' } },
+    ])
+    try {
+      const cfg = await cfgFor('openai', `${srv.url}/v1/responses`, 1)
+      assertEquals(await runLLM({ prompt: 'p', apiKey: 'k', cfg }), 'ok')
+      assertEquals(await runLLM({ prompt: 'p', apiKey: 'k', cfg }), null)
+      assertEquals(srv.seen.length, 3)
+    } finally {
+      await srv.close()
+    }
+  },
+})
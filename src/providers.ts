@@ -0,0 +1,319 @@
+/** LLM provider adapters: request building, parsing, errors and usage. */
+import type { Cfg } from './config.ts'
+
+/** Supported provider identifiers for the `provider` config key. */
+export const PROVIDER_NAMES = [
+  'openai',
+  'openai-chat',
+  'anthropic',
+  'ollama',
+] as const
+
+/** Provider identifier. `openai` is the OpenAI Responses API. */
+export type ProviderName = typeof PROVIDER_NAMES[number]
+
+/** Provider-neutral request passed to an adapter. */
+export type LLMRequest = {
+  /** System instructions. */
+  system: string
+  /** Rendered user prompt. */
+  prompt: string
+  /** Optional JSON schema requested as structured output. */
+  schema?: Record<string, unknown>
+}
+
+/** HTTP request produced by an adapter. */
+export type HttpRequest = {
+  url: string
+  headers: Record<string, string>
+  body: Record<string, unknown>
+}
+
+/** Token usage reported by the provider, when available. */
+export type LLMUsage = {
+  inputTokens: number
+  outputTokens: number
+}
+
+/** Failure details for a single attempt. */
+export type LLMFailure = {
+  /** HTTP status for non-2xx responses. */
+  status?: number
+  /** Thrown error for network failures and aborts. */
+  error?: Error & { code?: string }
+}
+
+/** Result of classifying a failed attempt. */
+export type ErrorClass = {
+  /** Whether the attempt may succeed when retried. */
+  retriable: boolean
+  /** Short human-readable description for logs. */
+  detail: string
+}
+
+/**
+ * Adapter contract implemented by each provider.
+ */
+export interface ProviderAdapter {
+  /** Provider identifier. */
+  name: ProviderName
+  /** Endpoint used when the config does not set one. */
+  defaultEndpoint: string
+  /** Model used when the config and env do not set one. */
+  defaultModel: string
+  /** Environment variable holding the API key; undefined when none needed. */
+  apiKeyEnv?: string
+  /** Build the HTTP request for a prompt. */
+  buildRequest(req: LLMRequest, cfg: Cfg, apiKey: string): HttpRequest
+  /** Extract the output text from a successful response body. */
+  parseResponse(data: unknown): string | null
+  /** Decide whether a failed attempt is retriable. */
+  classifyError(failure: LLMFailure, cfg: Cfg): ErrorClass
+  /** Extract token usage from a successful response body. */
+  extractUsage(data: unknown): LLMUsage | null
+}
+
+type Json = Record<string, unknown>
+
+const asObj = (v: unknown): Json =>
+  typeof v === 'object' && v !== null ? v as Json : {}
+
+const asNum = (v: unknown): number => typeof v === 'number' ? v : 0
+
+/**
+ * Default classification shared by HTTP providers: timeouts, 408, 429 and
+ * 5xx are retriable; other statuses and network errors are not.
+ */
+function classifyHttpError(failure: LLMFailure, cfg: Cfg): ErrorClass {
+  const { status, error } = failure
+  const isAbort = !!error &&
+    (error.name === 'AbortError' || error.code === 'AbortError')
+  const retriable = isAbort ||
+    (status !== undefined &&
+      (status === 408 || status === 429 || (status >= 500 && status <= 599)))
+  const detail = status
+    ? `status=${status}`
+    : isAbort
+    ? `timeout after ${cfg.timeout}ms`
+    : error?.message || 'network error'
+  return { retriable, detail }
+}
+
+/** Build a usage record from two token counters, or null if both are absent. */
+function usageFrom(input: unknown, output: unknown): LLMUsage | null {
+  if (typeof input !== 'number' && typeof output !== 'number') return null
+  return { inputTokens: asNum(input), outputTokens: asNum(output) }
+}
+
+/** OpenAI Responses API (`/v1/responses`). */
+const openaiResponses: ProviderAdapter = {
+  name: 'openai',
+  defaultEndpoint: 'https://api.openai.com/v1/responses',
+  defaultModel: 'gpt-4o-mini',
+  apiKeyEnv: 'OPENAI_API_KEY',
+  buildRequest({ system, prompt, schema }, cfg, apiKey) {
+    const body: Json = {
+      model: cfg.model,
+      input: [
+        { role: 'system', content: system },
+        { role: 'user', content: prompt },
+      ],
+    }
+    if (schema) {
+      body.text = {
+        format: {
+          type: 'json_schema',
+          name: 'todo_rewrites',
+          strict: true,
+          schema,
+        },
+      }
+    }
+    return {
+      url: cfg.endpoint,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body,
+    }
+  },
+  parseResponse(data) {
+    const d = asObj(data)
+    if (typeof d.output_text === 'string') return d.output_text
+    // Fall back to concatenating output_text parts of message items.
+    const texts: string[] = []
+    for (const item of Array.isArray(d.output) ? d.output : []) {
+      const content = asObj(item).content
+      for (const part of Array.isArray(content) ? content : []) {
+        const p = asObj(part)
+        if (p.type === 'output_text' && typeof p.text === 'string') {
+          texts.push(p.text)
+        }
+      }
+    }
+    if (texts.length) return texts.join('')
+    const legacy = asObj(Array.isArray(d.content) ? d.content[0] : null).text
+    return typeof legacy === 'string' ? legacy : null
+  },
+  classifyError: classifyHttpError,
+  extractUsage(data) {
+    const u = asObj(asObj(data).usage)
+    return usageFrom(u.input_tokens, u.output_tokens)
+  },
+}
+
+/** OpenAI-compatible Chat Completions (`/v1/chat/completions`, Azure, proxies). */
+const openaiChat: ProviderAdapter = {
+  name: 'openai-chat',
+  defaultEndpoint: 'https://api.openai.com/v1/chat/completions',
+  defaultModel: 'gpt-4o-mini',
+  apiKeyEnv: 'OPENAI_API_KEY',
+  buildRequest({ system, prompt, schema }, cfg, apiKey) {
+    const body: Json = {
+      model: cfg.model,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: prompt },
+      ],
+    }
+    if (schema) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: 'todo_rewrites', strict: true, schema },
+      }
+    }
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${apiKey}`,
+    }
+    // Azure OpenAI authenticates API keys via the `api-key` header.
+    if (/\.openai\.azure\.com\b/i.test(cfg.endpoint)) {
+      headers['api-key'] = apiKey
+    }
+    return { url: cfg.endpoint, headers, body }
+  },
+  parseResponse(data) {
+    const choices = asObj(data).choices
+    const first = asObj(Array.isArray(choices) ? choices[0] : null)
+    const content = asObj(first.message).content
+    return typeof content === 'string' ? content : null
+  },
+  classifyError: classifyHttpError,
+  extractUsage(data) {
+    const u = asObj(asObj(data).usage)
+    return usageFrom(u.prompt_tokens, u.completion_tokens)
+  },
+}
+
+/** Anthropic Messages API (`/v1/messages`). */
+const anthropic: ProviderAdapter = {
+  name: 'anthropic',
+  defaultEndpoint: 'https://api.anthropic.com/v1/messages',
+  defaultModel: 'claude-3-5-haiku-latest',
+  apiKeyEnv: 'ANTHROPIC_API_KEY',
+  buildRequest({ system, prompt, schema }, cfg, apiKey) {
+    // No native schema output; restate the contract in the system prompt.
+    const sys = schema
+      ? `${system}\nRespond with JSON only, matching this schema: ${
+        JSON.stringify(schema)
+      }`
+      : system
+    return {
+      url: cfg.endpoint,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: {
+        model: cfg.model,
+        max_tokens: 4096,
+        system: sys,
+        messages: [{ role: 'user', content: prompt }],
+      },
+    }
+  },
+  parseResponse(data) {
+    const content = asObj(data).content
+    const texts = (Array.isArray(content) ? content : [])
+      .map(asObj)
+      .filter((p) => p.type === 'text' && typeof p.text === 'string')
+      .map((p) => p.text as string)
+    return texts.length ? texts.join('') : null
+  },
+  // 529 (overloaded) falls in the retriable 5xx range.
+  classifyError: classifyHttpError,
+  extractUsage(data) {
+    const u = asObj(asObj(data).usage)
+    return usageFrom(u.input_tokens, u.output_tokens)
+  },
+}
+
+/** Ollama chat API (`/api/chat`), typically self-hosted without a key. */
+const ollama: ProviderAdapter = {
+  name: 'ollama',
+  defaultEndpoint: 'http://localhost:11434/api/chat',
+  defaultModel: 'llama3.1',
+  buildRequest({ system, prompt, schema }, cfg, apiKey) {
+    const body: Json = {
+      model: cfg.model,
+      stream: false,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: prompt },
+      ],
+    }
+    if (schema) body.format = schema
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    }
+    // Reverse proxies in front of Ollama may still require a bearer token.
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`
+    return { url: cfg.endpoint, headers, body }
+  },
+  parseResponse(data) {
+    const content = asObj(asObj(data).message).content
+    return typeof content === 'string' ? content : null
+  },
+  classifyError(failure, cfg) {
+    const base = classifyHttpError(failure, cfg)
+    // Ollama answers 404 when the model has not been pulled yet.
+    if (failure.status === 404) {
+      return {
+        ...base,
+        detail: `${base.detail} (model '${cfg.model}' not found?)`,
+      }
+    }
+    return base
+  },
+  extractUsage(data) {
+    const d = asObj(data)
+    return usageFrom(d.prompt_eval_count, d.eval_count)
+  },
+}
+
+const ADAPTERS: Record<ProviderName, ProviderAdapter> = {
+  'openai': openaiResponses,
+  'openai-chat': openaiChat,
+  'anthropic': anthropic,
+  'ollama': ollama,
+}
+
+/**
+ * Check whether a string names a supported provider.
+ * @param name - Candidate provider name.
+ */
+export function isProviderName(name: unknown): name is ProviderName {
+  return typeof name === 'string' &&
+    (PROVIDER_NAMES as readonly string[]).includes(name)
+}
+
+/**
+ * Look up the adapter for a provider.
+ * @param name - Provider identifier from the resolved configuration.
+ * @returns Adapter implementing the provider's wire format.
+ */
+export function getProvider(name: ProviderName): ProviderAdapter {
+  return ADAPTERS[name]
+}
@@ -0,0 +1,158 @@
+import { assertEquals } from '@std/assert'
+import { loadConfig } from './config.ts'
+import { processFile } from './process.ts'
+import type { ReviewDecision, Reviewer, ReviewItem } from './review.ts'
+import { createLimiter } from './pool.ts'
+
+const permissions = {
+  net: true,
+  read: true,
+  write: true,
+  env: true,
+} as const
+
+/** Reviewer that answers from a script keyed by the TODO's first line. */
+function scriptedReviewer(
+  script: Record<string, ReviewDecision[]>,
+): Reviewer & { seen: ReviewItem[] } {
+  const seen: ReviewItem[] = []
+  return {
+    seen,
+    review(item) {
+      seen.push(item)
+      return Promise.resolve(script[item.todo].shift()!)
+    },
+    turn: createLimiter(1),
+    rejected: new Set(),
+  }
+}
+
+Deno.test({
+  name: 'review: applies only accepted briefs and remembers rejections',
+  permissions,
+  fn: async () => {
+    const cwd = await Deno.makeTempDir()
+    // Batch requests ask for JSON; single (regenerate) requests do not.
+    const server = Deno.serve(
+      { hostname: '127.0.0.1', port: 0, onListen() {} },
+      async (req) => {
+        const body = await req.json()
+        if (!body.text) return Response.json({ output_text: '// TODO: v2' })
+        return Response.json({
+          output_text: JSON.stringify({
+            todos: [
+              { id: 'L1', comment: '// TODO: a\n// Goal: v1' },
+              { id: 'L3', comment: '// TODO: b\n// Goal: v1' },
+            ],
+          }),
+        })
+      },
+    )
+    const configPath = `${cwd}/config.json`
+    await Deno.writeTextFile(configPath, '{"cache": false, "format": false}')
+    const { config: cfg } = await loadConfig({
+      cwd,
+      configPath,
+      cli: { endpoint: `http://127.0.0.1:${server.addr.port}/v1/responses` },
+    })
+
+    const reviewer = scriptedReviewer({
+      '// TODO: a': [{ action: 'regenerate' }, {
+        action: 'accept',
+        comment: '// TODO: a (edited)',
+      }],
+      '// TODO: b': [{ action: 'reject' }],
+    })
+    const file = `${cwd}/a.ts`
+    try {
+      await Deno.writeTextFile(file, '// TODO: a\nx()\n// TODO: b\ny()\n')
+      const res = await processFile({
+        absPath: file,
+        relPath: 'a.ts',
+        cfg,
+        apiKey: 'k',
+        dryRun: false,
+        reviewer,
+      })
+      assertEquals(res, { changed: 1, todosFound: 2 })
+      assertEquals(
+        await Deno.readTextFile(file),
+        '// TODO: a (edited)\nx()\n// TODO: b\ny()\n',
+      )
+      assertEquals(reviewer.seen.map((s) => s.proposed), [
+        '// TODO: a\n// Goal: v1',
+        '// TODO: v2',
+        '// TODO: b\n// Goal: v1',
+      ])
+
+      // The rejected TODO is not proposed again in another file.
+      await Deno.writeTextFile(`${cwd}/b.ts`, '// TODO: b\n')
+      await processFile({
+        absPath: `${cwd}/b.ts`,
+        relPath: 'b.ts',
+        cfg,
+        apiKey: 'k',
+        dryRun: false,
+        reviewer,
+      })
+      assertEquals(reviewer.seen.length, 3)
+      assertEquals(await Deno.readTextFile(`${cwd}/b.ts`), '// TODO: b\n')
+    } finally {
+      await server.shutdown()
+    }
+  },
+})
+
+Deno.test({
+  name: 'review: a rejected TODO is not proposed again later in the file',
+  permissions,
+  fn: async () => {
+    const cwd = await Deno.makeTempDir()
+    const server = Deno.serve(
+      { hostname: '127.0.0.1', port: 0, onListen() {} },
+      () =>
+        Response.json({
+          output_text: JSON.stringify({
+            todos: [
+              { id: 'L1', comment: '// TODO: b\n// Goal: v1' },
+              { id: 'L3', comment: '// TODO: b\n// Goal: v1' },
+            ],
+          }),
+        }),
+    )
+    const configPath = `${cwd}/config.json`
+    await Deno.writeTextFile(configPath, '{"cache": false, "format": false}')
+    const { config: cfg } = await loadConfig({
+      cwd,
+      configPath,
+      cli: { endpoint: `http://127.0.0.1:${server.addr.port}/v1/responses` },
+    })
+
+    const reviewer = scriptedReviewer({
+      '// TODO: b': [{ action: 'reject' }, {
+        action: 'accept',
+        comment: '// TODO: b\n// Goal: v1',
+      }],
+    })
+    const file = `${cwd}/a.ts`
+    try {
+      await Deno.writeTextFile(file, '// TODO: b\nx()\n// TODO: b\ny()\n')
+      const res = await processFile({
+        absPath: file,
+        relPath: 'a.ts',
+        cfg,
+        apiKey: 'k',
+        dryRun: false,
+        reviewer,
+      })
+      assertEquals(res, { changed: 0, todosFound: 2 })
+      assertEquals(reviewer.seen.map((s) => s.line), [1])
+      assertEquals(
+        await Deno.readTextFile(file),
+        '// TODO: b\nx()\n// TODO: b\ny()\n',
+      )
+    } finally {
+      await server.shutdown()
+    }
+  },
+})
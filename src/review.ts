@@ -0,0 +1,124 @@
+/**
+ * Interactive review of proposed rewrites: each brief is shown next to the
+ * original TODO and its context, and only accepted briefs are applied.
+ */
+import { bold, gray, green, yellow } from './log.ts'
+import { createLimiter, type Limiter } from './pool.ts'
+
+/** A proposed rewrite awaiting a decision. */
+export type ReviewItem = {
+  /** Path relative to the project root. */
+  relPath: string
+  /** One-based line where the TODO starts. */
+  line: number
+  /** Original TODO comment. */
+  todo: string
+  /** Surrounding code from `extractContext`. */
+  context: string
+  /** Brief proposed by the LLM (or the cache). */
+  proposed: string
+}
+
+/** Outcome of reviewing one proposal. */
+export type ReviewDecision =
+  | { action: 'accept'; comment: string }
+  | { action: 'reject' }
+  | { action: 'regenerate' }
+
+/**
+ * Review session shared by every file in a run.
+ */
+export type Reviewer = {
+  /** Decide on one proposal. */
+  review(item: ReviewItem): Promise<ReviewDecision>
+  /** Holds the terminal so one file's proposals are reviewed together. */
+  turn: Limiter
+  /** `todoKey`s of rejected TODOs; these are not proposed again this run. */
+  rejected: Set<string>
+}
+
+/**
+ * Open `text` in `$VISUAL`/`$EDITOR` (falling back to `vi`) and return the
+ * saved result.
+ * @param text - Initial buffer contents.
+ */
+export async function editInEditor(text: string): Promise<string> {
+  const editor = Deno.env.get('VISUAL') || Deno.env.get('EDITOR') || 'vi'
+  const [cmd, ...args] = editor.split(/\s+/).filter(Boolean)
+  const file = await Deno.makeTempFile({
+    prefix: 'todo-expand-',
+    suffix: '.txt',
+  })
+  try {
+    await Deno.writeTextFile(file, text)
+    const { success } = await new Deno.Command(cmd, {
+      args: [...args, file],
+      stdin: 'inherit',
+      stdout: 'inherit',
+      stderr: 'inherit',
+    }).output()
+    if (!success) throw new Error(`${editor} exited with an error`)
+    return await Deno.readTextFile(file)
+  } finally {
+    await Deno.remove(file).catch(() => {})
+  }
+}
+
+const indent = (text: string) =>
+  text
+    .split('\n')
+    .map((l) => `    ${l}`)
+    .join('\n')
+
+/**
+ * Create a terminal reviewer that asks accept / reject / regenerate / edit
+ * for every proposal.
+ *
+ * @param ask - Line prompt (defaults to the global `prompt`); null means EOF.
+ * @param edit - Editor hook (defaults to `editInEditor`).
+ */
+export function createInteractiveReviewer({
+  ask = (message: string) => prompt(message),
+  edit = editInEditor,
+}: {
+  ask?: (message: string) => string | null
+  edit?: (text: string) => Promise<string>
+} = {}): Reviewer {
+  async function review(item: ReviewItem): Promise<ReviewDecision> {
+    console.log(bold(`\n${item.relPath}:${item.line}`))
+    console.log(gray(indent(item.context)))
+    console.log(yellow('  Original:'))
+    console.log(indent(item.todo))
+    console.log(green('  Proposed:'))
+    console.log(indent(item.proposed))
+
+    for (;;) {
+      const answer = ask('[a]ccept, [r]eject, re[g]enerate, [e]dit?')
+      // EOF (e.g., closed stdin) never writes unreviewed output.
+      if (answer === null) return { action: 'reject' }
+      switch (answer.trim().toLowerCase()) {
+        case 'a':
+        case 'accept':
+          return { action: 'accept', comment: item.proposed }
+        case 'r':
+        case 'reject':
+          return { action: 'reject' }
+        case 'g':
+        case 'regenerate':
+          return { action: 'regenerate' }
+        case 'e':
+        case 'edit': {
+          const comment = (await edit(item.proposed)).trim()
+          return comment ? { action: 'accept', comment } : { action: 'reject' }
+        }
+      }
+    }
+  }
+
+  return {
+    review,
+    // One file at a time even when files are processed in parallel.
+    turn: createLimiter(1),
+    rejected: new Set<string>(),
+  }
+}
@@ -1,5 +1,6 @@
 import { assertEquals, assertStringIncludes } from '@std/assert'
 import { applyRewrites } from './rewrite.ts'
+import { detectTodos } from './todos.ts'
 
 Deno.test('applyRewrites: normalizes to line comments with original marker', () => {
   const content = ['before', '// TODO: replace this comment', 'after'].join(
@@ -41,3 +42,148 @@ Deno.test('applyRewrites: normalizes to block comments', () => {
   assertStringIncludes(out, 'Goal: Safer')
   assertStringIncludes(out, '*/')
 })
+
+Deno.test('applyRewrites: re-indents briefs to the comment column', () => {
+  const content = [
+    'function outer() {',
+    '  function inner() {',
+    '    // TODO: handle errors',
+    '    return 1',
+    '  }',
+    '}',
+  ].join('\n')
+  const todo = {
+    start: 2,
+    end: 2,
+    raw: '    // TODO: handle errors',
+    style: 'line' as const,
+    marker: '//',
+  }
+  const out = applyRewrites({
+    content,
+    todo,
+    newComment: 'TODO: handle errors\nGoal: never throw\n  - keep stack',
+  })
+  assertEquals(out.split('\n').slice(2, 6), [
+    '    // TODO: handle errors',
+    '    // Goal: never throw',
+    '    //   - keep stack',
+    '    return 1',
+  ])
+})
+
+Deno.test('applyRewrites: keeps tab indentation for block comments', () => {
+  const content = ['\tif (x) {', '\t\t/* TODO: retry */', '\t}'].join('\n')
+  const todo = {
+    start: 1,
+    end: 1,
+    raw: '\t\t/* TODO: retry */',
+    style: 'block' as const,
+    marker: '/*',
+  }
+  const out = applyRewrites({
+    content,
+    todo,
+    newComment: 'TODO: retry\nSteps: back off',
+  })
+  assertEquals(out.split('\n'), [
+    '\tif (x) {',
+    '\t\t/*',
+    '\t\tTODO: retry',
+    '\t\tSteps: back off',
+    '\t\t*/',
+    '\t}',
+  ])
+})
+
+Deno.test('applyRewrites: moves trailing TODOs above the statement', () => {
+  const content = ['  const v = read() // TODO: handle null', 'use(v)'].join(
+    '\n',
+  )
+  const todo = {
+    start: 0,
+    end: 0,
+    raw: '  const v = read() // TODO: handle null',
+    style: 'line' as const,
+    marker: '//',
+  }
+  const out = applyRewrites({
+    content,
+    todo,
+    newComment: '// TODO: handle null\n// Goal: default to 0',
+  })
+  assertEquals(out.split('\n'), [
+    '  // TODO: handle null',
+    '  // Goal: default to 0',
+    '  const v = read()',
+    'use(v)',
+  ])
+})
+
+Deno.test('applyRewrites: replaces continuation lines with the TODO', () => {
+  const content = [
+    'function login() {',
+    '  // TODO: migrate auth',
+    '  //   - keep sessions',
+    '  //   - drop cookies',
+    '  return auth()',
+    '}',
+  ].join('\n')
+  const [todo] = detectTodos(content).todos
+  const out = applyRewrites({
+    content,
+    todo,
+    newComment: '// TODO: Migrate auth\n// Steps: keep sessions, drop cookies',
+  })
+  assertEquals(out.split('\n'), [
+    'function login() {',
+    '  // TODO: Migrate auth',
+    '  // Steps: keep sessions, drop cookies',
+    '  return auth()',
+    '}',
+  ])
+})
+
+Deno.test('applyRewrites: replaces only the TODO paragraph of a docblock', () => {
+  const content = [
+    '  /** TODO: cache lookups',
+    '   * @param id - User id.',
+    '   * @returns The user.',
+    '   */',
+  ].join('\n')
+  const [todo] = detectTodos(content).todos
+  const out = applyRewrites({
+    content,
+    todo,
+    newComment: '/**\n * TODO: Cache lookups\n *\n * Goal: one query\n */',
+  })
+  assertEquals(out.split('\n'), [
+    '  /**',
+    '   * TODO: Cache lookups',
+    '   *',
+    '   * Goal: one query',
+    '   * @param id - User id.',
+    '   * @returns The user.',
+    '   */',
+  ])
+})
+
+Deno.test('applyRewrites: wraps blocks in the language delimiters', () => {
+  const content = ['<main>', '  <!-- TODO: a11y -->', '</main>'].join('\n')
+  const todo = {
+    start: 1,
+    end: 1,
+    raw: '  <!-- TODO: a11y -->',
+    style: 'block' as const,
+    marker: '<!--',
+    close: '-->',
+  }
+  const out = applyRewrites({ content, todo, newComment: 'TODO: a11y' })
+  assertEquals(out.split('\n'), [
+    '<main>',
+    '  <!--',
+    '  TODO: a11y',
+    '  -->',
+    '</main>',
+  ])
+})
@@ -1,9 +1,101 @@
+import { blockTodoPattern, lineTodoPattern } from './comments.ts'
+
+/**
+ * Find where the comment begins on a TODO's first line.
+ * @returns Column of the comment marker, or 0 when it cannot be located.
+ */
+function commentColumn(
+  line: string,
+  style: 'line' | 'block',
+  marker: string,
+  tag = 'TODO',
+): number {
+  const m = style === 'block'
+    ? line.match(blockTodoPattern([marker], [tag])!)
+    : line.match(lineTodoPattern([marker], [tag])!)
+  if (!m || m.index === undefined) return 0
+  return style === 'block' ? m.index : m.index + m[1].length
+}
+
+/**
+ * Strip the indentation shared by all non-blank lines.
+ * @param lines - Lines to dedent.
+ */
+function dedent(lines: string[]): string[] {
+  const widths = lines
+    .filter((l) => l.trim())
+    .map((l) => l.length - l.trimStart().length)
+  const common = widths.length ? Math.min(...widths) : 0
+  return lines.map((l) => l.slice(common))
+}
+
+/**
+ * Replace a TODO paragraph inside a block or doc comment, keeping the rest
+ * of the comment. The opener is kept when the paragraph starts on its line,
+ * and the closer when the paragraph ends on its line.
+ */
+function rewriteParagraph(
+  lines: string[],
+  todo: {
+    start: number
+    end: number
+    marker: string
+    close?: string
+    column?: number
+    prefix?: string
+  },
+  newComment: string,
+): string {
+  const close = todo.close ?? '*/'
+  const prefix = todo.prefix ?? ''
+  const column = todo.column ?? 0
+  const head = lines[todo.start].slice(0, column)
+  const last = lines[todo.end]
+  const at = last.indexOf(close, todo.start === todo.end ? column : 0)
+
+  // Drop delimiters and `*` decoration the model may have added.
+  let text = newComment.trim()
+  if (text.startsWith(todo.marker)) {
+    text = text.slice(todo.marker.length).replace(/^\*+/, '')
+  }
+  if (text.endsWith(close)) text = text.slice(0, -close.length)
+  const body = dedent(
+    text.split('\n').map((l) => l.replace(/^[ \t]*\*(?!\/) ?/, '')),
+  )
+  while (body.length && !body[0].trim()) body.shift()
+  while (body.length && !body[body.length - 1].trim()) body.pop()
+
+  const replacement = body.map((l) =>
+    l.trim() ? prefix + l.trimEnd() : prefix.trimEnd()
+  )
+  if (head.includes(todo.marker)) replacement.unshift(head.trimEnd())
+  if (at !== -1) {
+    const star = prefix.indexOf('*')
+    const lead = star === -1 ? prefix : prefix.slice(0, star)
+    replacement.push(lead + close + last.slice(at + close.length).trimEnd())
+  }
+  return [
+    ...lines.slice(0, todo.start),
+    ...replacement,
+    ...lines.slice(todo.end + 1),
+  ].join('\n')
+}
+
 /**
  * Replace a detected TODO in `content` with the `newComment`, normalizing
  * the output to match the original comment style (line vs block).
  *
+ * Every inserted line is indented to the original comment's column. For a
+ * trailing comment (`foo() // TODO: ...`), the code before it is kept and the
+ * brief is placed above the statement at the statement's indentation. A
+ * `paragraph` TODO inside a doc comment replaces only that paragraph, with
+ * each line prefixed by `todo.prefix` (e.g., ` * `).
+ *
  * @param content - Full file contents.
- * @param todo - TODO match with location/style metadata.
+ * @param todo - TODO match with location/style metadata; block TODOs use
+ *   `marker`/`close` as delimiters (default `/*` and `*\/`). `column` (from
+ *   `detectTodos`) locates the comment; without it the first TODO-looking
+ *   comment on the line is used.
  * @param newComment - Rewritten TODO comment (may be multi-line without markers).
  * @returns Updated file contents with the TODO replaced.
  */
@@ -17,12 +109,20 @@ export function applyRewrites({
     start: number
     end: number
     raw: string
-    style: 'line' | 'block'
+    style: 'line' | 'block' | 'paragraph'
     marker: string
+    close?: string
+    column?: number
+    tag?: string
+    prefix?: string
   }
   newComment: string
 }): string {
   const lines = content.split('\n')
+  if (todo.style === 'paragraph') {
+    return rewriteParagraph(lines, todo, newComment)
+  }
+  const close = todo.close ?? '*/'
 
   // Normalize output to original style
   let normalized = newComment
@@ -35,14 +135,38 @@ export function applyRewrites({
     normalized = prefixed
   } else if (todo.style === 'block') {
     const trimmed = newComment.trim()
-    if (!trimmed.startsWith('/*')) {
-      normalized = `/*\n${trimmed}\n*/`
+    if (!trimmed.startsWith(todo.marker)) {
+      normalized = `${todo.marker}\n${trimmed}\n${close}`
     }
   }
 
+  // Split the first line into code before the comment and the comment's
+  // own indentation; keep whatever follows a block comment's `*/`.
+  const first = lines[todo.start] ?? ''
+  const column = todo.column ??
+    commentColumn(first, todo.style, todo.marker, todo.tag)
+  const lead = first.slice(0, column)
+  const indent = first.match(/^\s*/)![0]
+  const code = lead.trim() ? lead.trimEnd() : ''
+  let tail = ''
+  if (todo.style === 'block') {
+    const last = lines[todo.end] ?? ''
+    const at = last.indexOf(
+      close,
+      todo.start === todo.end ? column + todo.marker.length : 0,
+    )
+    if (at !== -1) tail = last.slice(at + close.length).trimEnd()
+  }
+
+  const replacement = dedent(normalized.split('\n')).map((l) =>
+    l.trim() ? (code ? indent : lead) + l.trimEnd() : ''
+  )
+  if ((code + tail).trim()) {
+    replacement.push(code ? code + tail : indent + tail.trimStart())
+  }
+
   const before = lines.slice(0, todo.start)
   const after = lines.slice(todo.end + 1)
-  const replacement = normalized.split('\n')
   const next = [...before, ...replacement, ...after].join('\n')
   return next
 }
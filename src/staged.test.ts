@@ -0,0 +1,85 @@
+import { assertEquals } from '@std/assert'
+import { mergeIntoWorktree, readIndexBlob, writeIndexBlob } from './staged.ts'
+
+const permissions = { read: true, write: true, run: ['git'] }
+
+async function sh(cwd: string, ...args: string[]) {
+  const { code } = await new Deno.Command('git', {
+    args,
+    cwd,
+    stdout: 'null',
+    stderr: 'null',
+  }).output()
+  if (code !== 0) throw new Error(`git ${args.join(' ')} failed`)
+}
+
+Deno.test({
+  name: 'staged: rewrites the index blob and merges into a dirty worktree',
+  permissions,
+  fn: async () => {
+    const cwd = await Deno.makeTempDir()
+    const file = `${cwd}/a.ts`
+    await sh(cwd, 'init', '-q')
+    const staged = 'const a = 1\n// TODO: check a\nexport { a }\n'
+    await Deno.writeTextFile(file, staged)
+    await sh(cwd, 'add', 'a.ts')
+    // Unstaged work on top of the staged copy.
+    await Deno.writeTextFile(file, staged + 'const unstaged = 2\n')
+
+    const blob = await readIndexBlob(file)
+    assertEquals(blob, { mode: '100644', content: staged })
+
+    const updated = staged.replace(
+      '// TODO: check a',
+      '// TODO: check a\n// Goal: x',
+    )
+    await writeIndexBlob(file, blob.mode, updated)
+    assertEquals((await readIndexBlob(file)).content, updated)
+
+    assertEquals(await mergeIntoWorktree(file, staged, updated), 'merged')
+    assertEquals(
+      await Deno.readTextFile(file),
+      updated + 'const unstaged = 2\n',
+    )
+  },
+})
+
+Deno.test({
+  name: 'staged: leaves the worktree alone when the merge conflicts',
+  permissions,
+  fn: async () => {
+    const cwd = await Deno.makeTempDir()
+    const file = `${cwd}/a.ts`
+    const base = '// TODO: a\n'
+    const worktree = '// TODO: a (edited)\n'
+    await Deno.writeTextFile(file, worktree)
+    assertEquals(
+      await mergeIntoWorktree(file, base, '// TODO: a\n// Goal: x\n'),
+      'conflict',
+    )
+    assertEquals(await Deno.readTextFile(file), worktree)
+  },
+})
+
+Deno.test({
+  name: 'staged: concurrent index rewrites all land',
+  permissions,
+  fn: async () => {
+    const cwd = await Deno.makeTempDir()
+    await sh(cwd, 'init', '-q')
+    const files = Array.from({ length: 40 }, (_, i) => `${cwd}/f${i}.ts`)
+    for (const file of files) await Deno.writeTextFile(file, '// TODO: x\n')
+    await sh(cwd, 'add', '.')
+
+    await Promise.all(files.map(async (file) => {
+      const blob = await readIndexBlob(file)
+      await writeIndexBlob(file, blob.mode, blob.content + '// Goal: y\n')
+    }))
+    for (const file of files) {
+      assertEquals(
+        (await readIndexBlob(file)).content,
+        '// TODO: x\n// Goal: y\n',
+      )
+    }
+  },
+})
@@ -0,0 +1,108 @@
+/**
+ * Git index I/O for `--staged`: read and rewrite the staged blob so partially
+ * staged files (`git add -p`) never pull unstaged work into the commit.
+ */
+import { basename, dirname, join } from '@std/path'
+import { git, runGit } from './git.ts'
+import { createLimiter } from './pool.ts'
+
+// `git update-index` holds `.git/index.lock` while it runs, so concurrent
+// updates from the worker pool fail instead of waiting; run them one at a time.
+const indexWrites = createLimiter(1)
+
+/** A staged file as recorded in the index. */
+export type IndexBlob = {
+  /** File mode from the index (e.g., `100644`). */
+  mode: string
+  /** Blob content as staged. */
+  content: string
+}
+
+/**
+ * Read the staged version of a file from the index.
+ * @param absPath - Absolute path of the file in the working tree.
+ * @returns Staged mode and content.
+ * @throws Error when the file is not in the index.
+ */
+export async function readIndexBlob(absPath: string): Promise<IndexBlob> {
+  const cwd = dirname(absPath)
+  const entry = await git(['ls-files', '-s', '--', basename(absPath)], {
+    cwd,
+  })
+  const m = entry.match(/^(\d+) ([0-9a-f]+) \d\t/)
+  if (!m) throw new Error(`${absPath} is not in the git index`)
+  const content = await git(['cat-file', 'blob', m[2]], { cwd })
+  return { mode: m[1], content }
+}
+
+/**
+ * Store `content` as a blob and point the index entry at it. Safe to call
+ * concurrently: index updates are serialized within the process.
+ * @param absPath - Absolute path of the file in the working tree.
+ * @param mode - File mode to keep (from `readIndexBlob`).
+ * @param content - New staged content.
+ */
+export async function writeIndexBlob(
+  absPath: string,
+  mode: string,
+  content: string,
+): Promise<void> {
+  const cwd = dirname(absPath)
+  const sha = (await git(['hash-object', '-w', '--no-filters', '--stdin'], {
+    cwd,
+    stdin: content,
+  })).trim()
+  await indexWrites(() =>
+    git(
+      ['update-index', '--cacheinfo', `${mode},${sha},${basename(absPath)}`],
+      { cwd },
+    )
+  )
+}
+
+/**
+ * Apply an index rewrite to the working tree with a three-way merge
+ * (`git merge-file`): base is the original staged blob, "theirs" is the
+ * rewritten blob, "ours" is the working-tree file. The working tree is left
+ * untouched when the merge conflicts or the file is gone.
+ *
+ * @param absPath - Absolute path of the working-tree file.
+ * @param base - Staged content before the rewrite.
+ * @param updated - Staged content after the rewrite.
+ * @returns `merged` when the working tree was updated, otherwise `conflict` or `missing`.
+ */
+export async function mergeIntoWorktree(
+  absPath: string,
+  base: string,
+  updated: string,
+): Promise<'merged' | 'conflict' | 'missing'> {
+  let current: string
+  try {
+    current = await Deno.readTextFile(absPath)
+  } catch {
+    return 'missing'
+  }
+  if (current === base) {
+    await Deno.writeTextFile(absPath, updated)
+    return 'merged'
+  }
+
+  const tmp = await Deno.makeTempDir({ prefix: 'todo-expand-merge-' })
+  try {
+    const [ours, baseFile, theirs] = ['ours', 'base', 'theirs'].map((n) =>
+      join(tmp, n)
+    )
+    await Deno.writeTextFile(ours, current)
+    await Deno.writeTextFile(baseFile, base)
+    await Deno.writeTextFile(theirs, updated)
+    const res = await runGit(
+      ['merge-file', '-p', '--quiet', ours, baseFile, theirs],
+      { cwd: tmp },
+    )
+    if (res.code !== 0) return 'conflict'
+    await Deno.writeTextFile(absPath, res.stdout)
+    return 'merged'
+  } finally {
+    await Deno.remove(tmp, { recursive: true })
+  }
+}
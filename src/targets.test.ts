@@ -1,5 +1,11 @@
 import { assert, assertEquals } from '@std/assert'
-import { discoverTargets } from './targets.ts'
+import {
+  discoverTargets,
+  parseAddedLines,
+  parseNameStatus,
+  parseRevRange,
+  stagedAddedLines,
+} from './targets.ts'
 
 async function write(path: string, text: string) {
   await Deno.mkdir(new URL('./', `file://${path}`).pathname, {
@@ -38,3 +44,120 @@ Deno.test({
     assert(rel.every((p) => p.endsWith('.ts') || p.endsWith('.js')))
   },
 })
+
+Deno.test('parseAddedLines: collects added lines per file from -U0 diff', () => {
+  const diff = [
+    'diff --git a/src/a.ts b/src/a.ts',
+    'index 1111111..2222222 100644',
+    '--- a/src/a.ts',
+    '+++ b/src/a.ts',
+    '@@ -3,0 +4,2 @@ function a() {',
+    '+// TODO: new one',
+    '+const x = 1',
+    '@@ -10 +12 @@',
+    '-old',
+    '+new',
+    '@@ -20,2 +21,0 @@',
+    '-gone',
+    '-gone too',
+    'diff --git a/src/old.ts b/src/old.ts',
+    'deleted file mode 100644',
+    '--- a/src/old.ts',
+    '+++ /dev/null',
+    '@@ -1,2 +0,0 @@',
+    '-a',
+    '-b',
+  ].join('\n')
+
+  const out = parseAddedLines(diff)
+  assertEquals([...out.keys()], ['src/a.ts'])
+  assertEquals([...out.get('src/a.ts')!], [4, 5, 12])
+})
+
+Deno.test('parseNameStatus: keeps new paths and drops deletions', () => {
+  const out = [
+    'M',
+    'src/a.ts',
+    'R087',
+    'src/old.ts',
+    'src/new.ts',
+    'D',
+    'src/gone.ts',
+    'A',
+    'src/added.ts',
+    'C100',
+    'src/a.ts',
+    'src/copy.ts',
+    '',
+  ].join('\0')
+
+  assertEquals(parseNameStatus(out), [
+    'src/a.ts',
+    'src/new.ts',
+    'src/added.ts',
+    'src/copy.ts',
+  ])
+})
+
+Deno.test('parseRevRange: two-dot, three-dot and single refs', () => {
+  assertEquals(parseRevRange('main..feature'), { from: 'main', to: 'feature' })
+  assertEquals(parseRevRange('main...'), {
+    from: 'main',
+    to: 'HEAD',
+    mergeBase: true,
+  })
+  assertEquals(parseRevRange('main..'), { from: 'main', to: 'HEAD' })
+  assertEquals(parseRevRange('..feature'), { from: 'HEAD', to: 'feature' })
+  assertEquals(parseRevRange('v1.0'), { from: 'v1.0' })
+})
+
+async function sh(cwd: string, ...args: string[]) {
+  const { code } = await new Deno.Command('git', {
+    args,
+    cwd,
+    stdout: 'null',
+    stderr: 'null',
+  }).output()
+  if (code !== 0) throw new Error(`git ${args.join(' ')} failed`)
+}
+
+Deno.test({
+  name: 'discoverTargets: git modes resolve paths from a subdirectory',
+  permissions: { read: true, write: true, run: ['git'] },
+  fn: async () => {
+    const root = await Deno.makeTempDir()
+    await sh(root, 'init', '-q')
+    await sh(root, 'config', 'user.email', 't@example.com')
+    await sh(root, 'config', 'user.name', 't')
+    await write(`${root}/pkg/src/a.ts`, 'export const a = 1\n')
+    await sh(root, 'add', '.')
+    await sh(root, 'commit', '-qm', 'a')
+    await write(`${root}/pkg/src/c.ts`, '// TODO: c\n')
+    await write(`${root}/other/d.ts`, '// TODO: d\n')
+    await sh(root, 'add', '.')
+    await sh(root, 'commit', '-qm', 'c')
+    await write(`${root}/pkg/src/e.ts`, '// TODO: e\n')
+    await sh(root, 'add', '.')
+
+    const opts = {
+      cwd: `${root}/pkg`,
+      paths: [],
+      include: ['ts'],
+      exclude: ['node_modules'],
+      maxFileKB: 64,
+    }
+    const range = await discoverTargets({
+      ...opts,
+      mode: 'range',
+      range: { from: 'HEAD~1', to: 'HEAD' },
+    })
+    assertEquals(range.sort(), [
+      `${root}/other/d.ts`,
+      `${root}/pkg/src/c.ts`,
+    ])
+    const staged = await discoverTargets({ ...opts, mode: 'staged' })
+    assertEquals(staged, [`${root}/pkg/src/e.ts`])
+    const added = await stagedAddedLines(opts.cwd)
+    assertEquals([...added.keys()], [`${root}/pkg/src/e.ts`])
+  },
+})
@@ -2,28 +2,55 @@
 import { join } from '@std/path'
 import { expandGlob } from '@std/fs'
 import type { Cfg } from './config.ts'
+import { git, repoRoot } from './git.ts'
 
 /**
- * Run a git command and return stdout as UTF-8 string.
- * @param args - Git arguments (e.g., ["diff", "--name-only", "--cached"]).
- * @param cwd - Working directory where the git command executes.
- * @returns Raw stdout string on success.
- * @throws Error when git exits with non-zero code.
+ * Parse a zero-context unified diff (`git diff -U0`) into the line numbers
+ * each file gained. Deleted files and pure deletions contribute nothing.
+ *
+ * @param diff - Unified diff text.
+ * @returns Map of repo-relative path to 1-based line numbers in the new file.
  */
-async function git(args: string[], { cwd }: { cwd: string }) {
-  const p = new Deno.Command('git', {
-    args,
-    cwd,
-    stdout: 'piped',
-    stderr: 'piped',
-  })
-  const { code, stdout, stderr } = await p.output()
-  if (code !== 0) {
-    throw new Error(
-      `git ${args.join(' ')} failed: ${new TextDecoder().decode(stderr)}`,
-    )
+export function parseAddedLines(diff: string): Map<string, Set<number>> {
+  const out = new Map<string, Set<number>>()
+  let current: Set<number> | null = null
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const target = line.slice(4).trim()
+      if (target === '/dev/null') {
+        current = null
+        continue
+      }
+      const path = target.startsWith('b/') ? target.slice(2) : target
+      current = out.get(path) ?? new Set<number>()
+      out.set(path, current)
+      continue
+    }
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/)
+    if (hunk && current) {
+      const start = Number(hunk[1])
+      const count = hunk[2] === undefined ? 1 : Number(hunk[2])
+      for (let n = start; n < start + count; n++) current.add(n)
+    }
   }
-  return new TextDecoder().decode(stdout)
+  return out
+}
+
+/**
+ * Lines added or changed by the staged diff, keyed by absolute path.
+ * Diff paths are relative to the repository root, not `cwd`.
+ * @param cwd - Directory inside the repository.
+ */
+export async function stagedAddedLines(
+  cwd: string,
+): Promise<Map<string, Set<number>>> {
+  const out = await git(
+    ['diff', '--cached', '-U0', '--no-color', '--no-ext-diff'],
+    { cwd },
+  )
+  const root = await repoRoot(cwd)
+  const byRel = parseAddedLines(out)
+  return new Map([...byRel].map(([rel, lines]) => [join(root, rel), lines]))
 }
 
 /**
@@ -37,15 +64,125 @@ function _isIncluded(path: string, cfg: Cfg) {
     !cfg.exclude.some((skip) => path.includes(`/${skip}/`))
 }
 
+/**
+ * Git revision range for `range` mode.
+ */
+export type RevRange = {
+  /** Base ref (e.g., `main`, `origin/main`, a commit SHA). */
+  from: string
+  /** Head ref; when omitted, compares against the working tree. */
+  to?: string
+  /** Diff from the merge-base of `from` and `to` (or HEAD) instead of `from`. */
+  mergeBase?: boolean
+}
+
+/**
+ * Parse a CLI range spec: `a..b`, `a...b` (merge-base) or a single ref.
+ * As in git, an empty side of `..`/`...` means HEAD (`main..` is
+ * `main..HEAD`); only a single ref compares against the working tree.
+ * @param spec - Range argument from `--range`.
+ */
+export function parseRevRange(spec: string): RevRange {
+  const three = spec.indexOf('...')
+  if (three !== -1) {
+    const to = spec.slice(three + 3)
+    return {
+      from: spec.slice(0, three) || 'HEAD',
+      to: to || 'HEAD',
+      mergeBase: true,
+    }
+  }
+  const two = spec.indexOf('..')
+  if (two !== -1) {
+    const to = spec.slice(two + 2)
+    return { from: spec.slice(0, two) || 'HEAD', to: to || 'HEAD' }
+  }
+  return { from: spec }
+}
+
+/**
+ * Parse `git diff --name-status -z` output into the paths that exist after
+ * the change. Renames and copies yield the new path; deletions are dropped.
+ *
+ * @param out - NUL-delimited name-status output.
+ * @returns Repo-relative paths of added, modified, renamed and copied files.
+ */
+export function parseNameStatus(out: string): string[] {
+  const fields = out.split('\0')
+  const files: string[] = []
+  for (let i = 0; i < fields.length;) {
+    const status = fields[i++]
+    if (!status) continue
+    const kind = status[0]
+    if (kind === 'R' || kind === 'C') {
+      i++ // old path
+      files.push(fields[i++])
+    } else if (kind === 'D') {
+      i++
+    } else {
+      files.push(fields[i++])
+    }
+  }
+  return files.filter(Boolean)
+}
+
+/**
+ * List files changed in a revision range.
+ * @param cwd - Repository working directory.
+ * @param range - Refs to compare.
+ */
+async function rangeFiles(cwd: string, range: RevRange): Promise<string[]> {
+  let from = range.from
+  if (range.mergeBase) {
+    from = (await git(['merge-base', range.from, range.to ?? 'HEAD'], { cwd }))
+      .trim()
+  }
+  const args = ['diff', '--name-status', '-z', '-M', from]
+  if (range.to) args.push(range.to)
+  return parseNameStatus(await git(args, { cwd }))
+}
+
+/**
+ * Filter repo-relative paths by existence, extension, exclusion and size.
+ * @param root - Repository root the paths are relative to (see `repoRoot`).
+ */
+async function filterGitFiles(
+  root: string,
+  files: string[],
+  { include, exclude, maxFileKB }: {
+    include: string[]
+    exclude: string[]
+    maxFileKB: number
+  },
+): Promise<string[]> {
+  const filtered: string[] = []
+  for (const file of files.map((f) => join(root, f))) {
+    try {
+      const info = await Deno.stat(file)
+      if (!info.isFile) continue
+      const ext = file.split('.').pop()?.toLowerCase() || ''
+      if (!include.includes(ext)) continue
+      if (exclude.some((seg) => file.includes(`/${seg}/`))) continue
+      if (info.size > maxFileKB * 1024) continue
+      filtered.push(file)
+    } catch (_) {
+      // ignore missing files
+    }
+  }
+  return filtered
+}
+
 /**
  * Discover files to process based on mode and filters.
  *
  * - `staged`: reads git staged files
+ * - `range`: files changed between two refs (or since a merge-base)
  * - `paths`: walks provided files/directories and filters by ext/size
  *
  * @param cwd - Project root directory.
- * @param mode - "staged" to read from git index, or "paths" to traverse arguments.
+ * @param mode - "staged" to read from git index, "range" for a revision range, or "paths" to traverse arguments.
  * @param paths - File or directory arguments when `mode` is "paths".
+ * @param range - Revision range when `mode` is "range".
  * @param include - Allowed file extensions (lowercase, no leading dot).
  * @param exclude - Directory segments to skip (matched within path segments).
  * @param maxFileKB - Skip files larger than this threshold.
@@ -55,13 +192,15 @@ export async function discoverTargets({
   cwd,
   mode,
   paths,
+  range,
   include,
   exclude,
   maxFileKB,
 }: {
   cwd: string
-  mode: 'staged' | 'paths'
+  mode: 'staged' | 'paths' | 'range'
   paths: string[]
+  range?: RevRange
   include: string[]
   exclude: string[]
   maxFileKB: number
@@ -72,22 +211,21 @@ export async function discoverTargets({
       .split('\n')
       .map((s) => s.trim())
       .filter(Boolean)
-    const abs = files.map((f) => join(cwd, f))
-    const filtered: string[] = []
-    for (const file of abs) {
-      try {
-        const info = await Deno.stat(file)
-        if (!info.isFile) continue
-        const ext = file.split('.').pop()?.toLowerCase() || ''
-        if (!include.includes(ext)) continue
-        if (exclude.some((seg) => file.includes(`/${seg}/`))) continue
-        if (info.size > maxFileKB * 1024) continue
-        filtered.push(file)
-      } catch (_) {
-        // ignore missing files
-      }
-    }
-    return filtered
+    return await filterGitFiles(await repoRoot(cwd), files, {
+      include,
+      exclude,
+      maxFileKB,
+    })
+  }
+
+  if (mode === 'range') {
+    if (!range) throw new Error("discoverTargets: 'range' mode needs a range")
+    const files = await rangeFiles(cwd, range)
+    return await filterGitFiles(await repoRoot(cwd), files, {
+      include,
+      exclude,
+      maxFileKB,
+    })
   }
 
   // paths mode: accept files/dirs
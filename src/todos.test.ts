@@ -1,5 +1,6 @@
 import { assert, assertEquals } from '@std/assert'
 import { detectTodos } from './todos.ts'
+import { commentSyntaxFor } from './comments.ts'
 
 Deno.test('detectTodos: finds single-line TODOs', () => {
   const content = [
@@ -46,3 +47,176 @@ Deno.test('detectTodos: filters already-structured TODOs', () => {
   const { todos } = detectTodos(content)
   assertEquals(todos.length, 0)
 })
+
+Deno.test('detectTodos: uses the comment syntax of the file language', () => {
+  const sql = detectTodos(
+    'SELECT 1; -- TODO: index this\n// TODO: not sql\n',
+    commentSyntaxFor('q.sql'),
+  ).todos
+  assertEquals(sql.map((t) => [t.start, t.marker]), [[0, '--']])
+
+  const html = detectTodos(
+    '<div>\n  <!-- TODO: a11y\n  labels -->\n</div>',
+    commentSyntaxFor('page.html'),
+  ).todos
+  assertEquals(html.map((t) => [t.start, t.end, t.marker, t.close]), [
+    [1, 2, '<!--', '-->'],
+  ])
+
+  const py = detectTodos(
+    'def f():\n    """TODO: document f"""\n    # TODO: type hints\n',
+    commentSyntaxFor('mod.py'),
+  ).todos
+  assertEquals(py.map((t) => [t.start, t.style, t.marker]), [
+    [2, 'line', '#'],
+    [1, 'block', '"""'],
+  ])
+
+  const lua = detectTodos(
+    '--[[ TODO: cache\n]]\nlocal x = 1 -- TODO: rename\n',
+    commentSyntaxFor('init.lua'),
+  ).todos
+  assertEquals(lua.map((t) => [t.start, t.end, t.marker]), [
+    [2, 2, '--'],
+    [0, 1, '--[['],
+  ])
+})
+
+Deno.test('commentSyntaxFor: config entries replace built-in syntax', () => {
+  assertEquals(commentSyntaxFor('a.unknown').line, ['//', '#'])
+  assertEquals(commentSyntaxFor('A.HS').block, [['{-', '-}']])
+  const custom = { line: ['%'], block: [] as [string, string][] }
+  assertEquals(commentSyntaxFor('x.ts', { ts: custom }), custom)
+  assertEquals(
+    detectTodos('% TODO: m4 macro', commentSyntaxFor('a.tex', { tex: custom }))
+      .todos.length,
+    1,
+  )
+})
+
+Deno.test('detectTodos: detects configured marker tags', () => {
+  const content = [
+    '// FIXME: off by one',
+    '// hack: temporary shim',
+    '/* @ai: generate fixtures */',
+    '// TODO: not configured here',
+    '// FIXMEPLEASE: not a tag',
+  ].join('\n')
+
+  const { todos } = detectTodos(content, commentSyntaxFor('a.ts'), [
+    'FIXME',
+    'HACK',
+    '@ai',
+  ])
+  assertEquals(todos.map((t) => [t.start, t.tag]), [
+    [0, 'FIXME'],
+    [1, 'HACK'],
+    [2, '@ai'],
+  ])
+  assertEquals(detectTodos(content).todos.map((t) => t.tag), ['TODO'])
+})
+
+Deno.test('detectTodos: parses owner, issue, priority and due date', () => {
+  const content = [
+    '// TODO(alice, #123, P1): cache results',
+    '/* FIXME[2026-12-01] drop the shim */',
+    '// TODO: plain',
+  ].join('\n')
+
+  const { todos } = detectTodos(content, commentSyntaxFor('a.ts'), [
+    'TODO',
+    'FIXME',
+  ])
+  assertEquals(todos.map((t) => [t.start, t.annotation, t.meta]), [
+    [0, '(alice, #123, P1)', { owner: 'alice', issue: '#123', priority: 'P1' }],
+    [2, undefined, undefined],
+    [1, '[2026-12-01]', { due: '2026-12-01' }],
+  ])
+})
+
+Deno.test('detectTodos: extends line TODOs over continuation lines', () => {
+  const content = [
+    '  // TODO: migrate auth',
+    '  //   - keep sessions',
+    '  //   - drop cookies',
+    '  //',
+    '  // unrelated note',
+    'run() // TODO: retry',
+    '      // on timeout',
+    '# TODO: not the same marker',
+    '// TODO: first',
+    '// TODO: second',
+    '// continued',
+    '    // deeper indent ends it',
+  ].join('\n')
+
+  const { todos } = detectTodos(content)
+  assertEquals(todos.map((t) => [t.start, t.end]), [
+    [0, 2],
+    [5, 6],
+    [7, 7],
+    [8, 8],
+    [9, 10],
+  ])
+  assertEquals(
+    todos[0].raw,
+    '  // TODO: migrate auth\n  //   - keep sessions\n  //   - drop cookies',
+  )
+})
+
+Deno.test('detectTodos: finds TODO paragraphs inside doc comments', () => {
+  const content = [
+    '/**',
+    ' * Load a user.',
+    ' *',
+    ' * TODO: cache lookups',
+    ' * per request',
+    ' * @param id - User id.',
+    ' */',
+    '/** TODO: whole doc comment */',
+    '/* TODO: plain block',
+    '',
+    'notes */',
+  ].join('\n')
+
+  const { todos } = detectTodos(content, commentSyntaxFor('a.ts'))
+  assertEquals(todos.map((t) => [t.start, t.end, t.style, t.prefix]), [
+    [3, 4, 'paragraph', ' * '],
+    [7, 7, 'block', undefined],
+    [8, 10, 'block', undefined],
+  ])
+  assertEquals(todos[0].raw, ' * TODO: cache lookups\n * per request')
+})
+
+Deno.test('detectTodos: skips only complete briefs', () => {
+  const brief = [
+    '// TODO: Extract time formatting utility',
+    '// Context',
+    '// - Formatter is inline.',
+    '//',
+    '// Goal',
+    '// - Move it to src/utils/datetime.ts.',
+    '// Steps (re-runnable)',
+    '// 1) Create the module.',
+    '// Constraints: pure function',
+    '// Acceptance: tests pass',
+  ]
+  const content = [
+    ...brief,
+    '',
+    '// TODO: add Steps counter to wizard',
+    '',
+    ...brief.slice(0, 6),
+  ].join('\n')
+
+  const { todos, structured } = detectTodos(content)
+  assertEquals(todos.map((t) => [t.start, t.end]), [[11, 11], [13, 15]])
+  assertEquals(structured.map((t) => [t.start, t.end]), [[0, 9]])
+
+  // Sections are taken from the tag's configuration.
+  assertEquals(
+    detectTodos(content, undefined, ['TODO'], () => ['Context', 'Goal'])
+      .todos.map((t) => t.start),
+    [11],
+  )
+})
@@ -1,9 +1,29 @@
 /** TODO detection utilities. */
+import {
+  ANNOTATION_PATTERN,
+  type CommentSyntax,
+  escapeRegExp,
+  FALLBACK_COMMENT_SYNTAX,
+} from './comments.ts'
+import { parseTodoMeta, type TodoMeta } from './metadata.ts'
+import { DEFAULT_SECTIONS, isStructuredBrief, uncomment } from './brief.ts'
+import { type CommentToken, scanComments } from './tokenize.ts'
 
-/** Matches single-line TODO comments of the form `// TODO:` or `# TODO:`. */
-const TODO_SINGLE = /(^|\s)(\/\/|#)\s*TODO[:\s](.*)$/i
-/** Matches the start of a block TODO comment (e.g., the beginning of a /* TODO: ... block). */
-const TODO_BLOCK_START = /\/\*\s*TODO[:\s]/i
+/**
+ * Pattern for a comment body starting with one of `tags` (e.g., `TODO:`,
+ * `FIXME ` or `TODO(alice):`) on the opening line. Group 1 is the tag as
+ * written, group 2 its annotation groups.
+ */
+function tagPattern(tags: string[]): RegExp {
+  const alternation = [...tags]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|')
+  return new RegExp(
+    `^[ \\t]*(${alternation})(${ANNOTATION_PATTERN})[:\\s]`,
+    'i',
+  )
+}
 
 /**
  * A detected TODO comment occurrence within a file.
@@ -11,59 +31,252 @@ const TODO_BLOCK_START = /\/\*\s*TODO[:\s]/i
 export type TodoMatch = {
   /** Zero-based start line index of the TODO. */
   start: number
-  /** Zero-based end line index (inclusive). Equal to start for single-line. */
+  /**
+   * Zero-based end line index (inclusive). Equal to start for a single line;
+   * line-style TODOs extend over their continuation lines.
+   */
   end: number
-  /** Raw text of the comment (single line or full block). */
+  /** Raw text of the comment (all of its lines, or the full block). */
   raw: string
-  /** Comment style: `line` (// or #) or `block`. */
-  style: 'line' | 'block'
-  /** Marker used for line comments (// or #). For blocks, "/*". */
+  /**
+   * Comment style: `line` (e.g., // or #), `block`, or `paragraph` for a
+   * TODO paragraph inside a larger block or doc comment.
+   */
+  style: 'line' | 'block' | 'paragraph'
+  /** Line comment marker, or the block opener (e.g., "/*", "<!--"). */
   marker: string
+  /** Block closer matching `marker` (e.g., "*\/", "-->"). Blocks only. */
+  close?: string
+  /**
+   * Zero-based column where the comment starts on its first line; for
+   * paragraphs, where the tag starts.
+   */
+  column?: number
+  /** Paragraphs only: prefix for each line, e.g. ` * ` in a JSDoc block. */
+  prefix?: string
+  /** Marker tag that matched (e.g., `TODO`, `FIXME`), as configured. */
+  tag: string
+  /** Annotation groups after the tag as written (e.g., `(alice, #123)`). */
+  annotation?: string
+  /** Owner, issue, priority and due date parsed from `annotation`. */
+  meta?: TodoMeta
 }
 
 /**
  * Detect raw TODO comments (single-line and block) within file content.
- * Skips TODOs that already look structured (Context/Goal/Steps/etc.).
- */
-/**
- * Detect raw TODO comments (single-line and block) within file content.
- * Skips TODOs that already look structured (contain Context/Goal/Steps/etc.).
+ * Skips TODOs that are already complete briefs (see `isStructuredBrief`); a
+ * brief's sections may be separated by blank comment lines.
+ * A line-comment TODO includes the comment-only lines below it that use the
+ * same marker at the same column (e.g., `//   - keep sessions`).
  *
  * @param content - Entire file contents as a string.
- * @returns Object containing an array of unstructured TODO matches.
+ * @param syntax - Comment and string delimiters for the file's language (see
+ *   `commentSyntaxFor`); defaults to `//`, `#` and `/* *\/`. TODO-like text
+ *   inside strings, regex and template literals is ignored.
+ * @param tags - Marker tags to detect (case-insensitive); defaults to `TODO`.
+ * @param sections - Sections a complete brief needs, per tag (defaults to
+ *   Context, Goal, Steps, Constraints, Acceptance).
+ * @returns Unstructured TODO matches (`todos`) and complete briefs
+ *   (`structured`).
  * @example
  * const { todos } = detectTodos("// TODO: refactor\nconst x=1\n")
  * console.log(todos.length) // 1
  */
-export function detectTodos(content: string) {
+export function detectTodos(
+  content: string,
+  syntax: CommentSyntax = FALLBACK_COMMENT_SYNTAX,
+  tags: string[] = ['TODO'],
+  sections: (tag: string) => string[] = () => DEFAULT_SECTIONS,
+) {
+  const body = tagPattern(tags)
+  const canonical = (written: string) =>
+    tags.find((t) => t.toLowerCase() === written.toLowerCase()) ?? written
   const lines = content.split('\n')
-  const todos: TodoMatch[] = []
+  const lineStarts = [0]
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineStarts.push(i + 1)
+  }
+  const lineOf = (offset: number) => {
+    let lo = 0
+    let hi = lineStarts.length - 1
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if (lineStarts[mid] <= offset) lo = mid
+      else hi = mid - 1
+    }
+    return lo
+  }
 
-  // single-line TODOs
-  lines.forEach((ln, i) => {
-    const m = ln.match(TODO_SINGLE)
-    if (m) {
-      const marker = m[2] === '#' ? '#' : '//'
-      todos.push({ start: i, end: i, raw: ln, style: 'line', marker })
+  const comments = scanComments(content, syntax)
+  // Line comments that are alone on their line, by line index.
+  const ownLine = new Map<number, CommentToken>()
+  for (const c of comments) {
+    const line = lineOf(c.start)
+    if (
+      c.style === 'line' && !content.slice(lineStarts[line], c.start).trim()
+    ) {
+      ownLine.set(line, c)
     }
+  }
+  /**
+   * Last line of a line-style TODO: following comment-only lines with the
+   * same marker at the same column continue it, up to a blank comment line
+   * (unless `acrossBlank`), a non-comment line or another tag.
+   */
+  const continuationEnd = (
+    start: number,
+    column: number,
+    marker: string,
+    acrossBlank = false,
+  ) => {
+    let end = start
+    for (let line = start + 1;; line++) {
+      const next = ownLine.get(line)
+      if (
+        !next || next.marker !== marker ||
+        next.start - lineStarts[line] !== column
+      ) break
+      const text = content.slice(next.bodyStart, next.bodyEnd)
+      if (!text.trim()) {
+        if (acrossBlank) continue
+        break
+      }
+      if (body.test(text)) break
+      end = line
+    }
+    return end
+  }
+  // Complete briefs, reported separately from raw TODOs.
+  const briefs: TodoMatch[] = []
+  const structured = (text: string, tag: string) =>
+    isStructuredBrief(text, sections(tag))
+
+  /** Tag, annotation and parsed metadata of a tag pattern match. */
+  const tagged = (m: RegExpMatchArray) => ({
+    tag: canonical(m[1]),
+    ...(m[2].trim() &&
+      { annotation: m[2].trim(), meta: parseTodoMeta(m[2]) }),
   })
 
-  // block TODOs
-  for (let i = 0; i < lines.length; i++) {
-    if (TODO_BLOCK_START.test(lines[i])) {
-      const start = i
-      while (i < lines.length && !/\*\//.test(lines[i])) i++
-      const end = Math.min(i, lines.length - 1)
-      const raw = lines.slice(start, end + 1).join('\n')
-      todos.push({ start, end, raw, style: 'block', marker: '/*' })
+  /**
+   * TODOs in a block comment. A block whose body starts with a tag is one
+   * TODO. Otherwise (and in doc comments such as `/**` with more content),
+   * each paragraph starting with a tag is a TODO of its own; a paragraph
+   * ends at a blank line, a `@` doc tag, another tag or the closer.
+   * Complete briefs go to `briefs` instead.
+   */
+  const blockTodos = (c: CommentToken): TodoMatch[] => {
+    const start = lineOf(c.start)
+    const end = lineOf(Math.max(c.start, c.end - 1))
+    const doc = content[c.bodyStart] === '*'
+    // Text of each line inside the delimiters, without `*` decoration.
+    const inner = lines.slice(start, end + 1).map((line, k) => {
+      const from = k === 0 ? c.bodyStart - lineStarts[start] : 0
+      const to = start + k === end ? c.bodyEnd - lineStarts[end] : line.length
+      const text = line.slice(from, to)
+      const deco = text.match(k === 0 ? /^\**/ : /^[ \t]*\*(?!\/)/)?.[0] ?? ''
+      return { text: text.slice(deco.length), at: from + deco.length }
+    })
+    // Continuation prefix, e.g. ` * ` in a JSDoc block.
+    const decorated = lines
+      .slice(start + 1, end + 1)
+      .map((l) => l.match(/^[ \t]*\*(?!\/)/)?.[0])
+      .find(Boolean)
+
+    // Last line of the paragraph starting at `i`; a brief's sections may
+    // also span blank lines.
+    const paragraphEnd = (i: number, acrossBlank = false) => {
+      let j = i
+      for (let k = i + 1; k < inner.length; k++) {
+        const text = inner[k].text
+        if (!text.trim()) {
+          if (acrossBlank) continue
+          break
+        }
+        if (/^\s*@/.test(text) || body.test(text)) break
+        j = k
+      }
+      return j
     }
-  }
 
-  // filter out already structured briefs
-  const isStructured = (text: string) =>
-    /AI TASK:|\bContext\b|\bGoal\b|\bSteps\b|\bConstraints\b|\bAcceptance\b/
-      .test(text)
+    const found: TodoMatch[] = []
+    for (let i = 0; i < inner.length; i++) {
+      const m = inner[i].text.match(body)
+      if (!m) continue
+      const j = paragraphEnd(i)
+      const rest = inner.some((x, k) => (k < i || k > j) && x.text.trim())
+      const todo = tagged(m)
+      if (i === 0 && (!doc || !rest)) {
+        const raw = lines.slice(start, end + 1).join('\n')
+        const match: TodoMatch = {
+          start,
+          end,
+          raw,
+          style: 'block',
+          marker: c.marker,
+          close: c.close,
+          column: c.start - lineStarts[start],
+          ...todo,
+        }
+        if (!structured(uncomment(raw, c.marker, c.close), todo.tag)) {
+          return [match]
+        }
+        briefs.push(match)
+        return []
+      }
+      const briefEnd = paragraphEnd(i, true)
+      const isBrief = structured(
+        inner.slice(i, briefEnd + 1).map((x) => x.text).join('\n'),
+        todo.tag,
+      )
+      const last = isBrief ? briefEnd : j
+      const column = inner[i].at + inner[i].text.search(/\S/)
+      const into = isBrief ? briefs : found
+      into.push({
+        start: start + i,
+        end: start + last,
+        raw: lines.slice(start + i, start + last + 1).join('\n'),
+        style: 'paragraph',
+        marker: c.marker,
+        close: c.close,
+        column,
+        prefix: decorated
+          ? `${decorated} `
+          : lines[start + i].slice(0, column).replace(/[^\t]/g, ' '),
+        ...todo,
+      })
+      i = last
+    }
+    return found
+  }
 
-  const filtered = todos.filter((t) => !isStructured(t.raw))
-  return { todos: filtered }
+  const singles: TodoMatch[] = []
+  const blocks: TodoMatch[] = []
+  // Only real comments count; strings, regexes and templates are skipped.
+  for (const c of comments) {
+    if (c.style === 'block') {
+      blocks.push(...blockTodos(c))
+      continue
+    }
+    const m = content.slice(c.bodyStart, c.bodyEnd).match(body)
+    if (!m) continue
+    const start = lineOf(c.start)
+    const column = c.start - lineStarts[start]
+    const todo = tagged(m)
+    const briefEnd = continuationEnd(start, column, c.marker, true)
+    const brief = lines.slice(start, briefEnd + 1).join('\n')
+    const isBrief = structured(uncomment(brief, c.marker), todo.tag)
+    const end = isBrief ? briefEnd : continuationEnd(start, column, c.marker)
+    const into = isBrief ? briefs : singles
+    into.push({
+      start,
+      end,
+      raw: lines.slice(start, end + 1).join('\n'),
+      style: 'line',
+      marker: c.marker,
+      column,
+      ...todo,
+    })
+  }
+  return { todos: [...singles, ...blocks], structured: briefs }
 }
@@ -0,0 +1,95 @@
+import { assertEquals } from '@std/assert'
+import { commentSyntaxFor } from './comments.ts'
+import { detectTodos } from './todos.ts'
+import { scanComments } from './tokenize.ts'
+
+/** Per-language fixtures: only the `// TODO: real` style lines may match. */
+const FIXTURES: Record<string, string[]> = {
+  'a.ts': [
+    'const s = "# TODO: not a comment"',
+    "const url = 'http://host/#todo // TODO: no'",
+    'const t = `line',
+    '// TODO: inside template',
+    '${a /* TODO: real in expression */}',
+    '// TODO: still template`',
+    'const re = /\\/\\/ TODO: regex/g',
+    'const half = total / 2 // TODO: real after division',
+    "// TODO: real, it's fine",
+  ],
+  'a.go': [
+    'var raw = `',
+    '// TODO: raw string`',
+    's := "/* TODO: no */" // TODO: real',
+  ],
+  'a.py': [
+    'x = "# TODO: no"',
+    "y = '# TODO: no'  # TODO: real",
+    '"""TODO: real docstring"""',
+    "'''TODO: real docstring'''",
+  ],
+  'a.sh': [
+    'echo "# TODO: no"',
+    "echo '# TODO: no' # TODO: real",
+    'x=a#TODO: no',
+  ],
+  'a.sql': [
+    "SELECT '-- TODO: no' FROM t; -- TODO: real",
+    '/* TODO: real block */',
+  ],
+  'a.lua': [
+    'local s = "-- TODO: no"',
+    '--[[ TODO: real block',
+    ']] -- TODO: real',
+  ],
+  'a.html': [
+    '<a href="http://x/#TODO">x</a>',
+    '<!-- TODO: real -->',
+  ],
+  'a.rs': [
+    "let c = '\"'; // TODO: x",
+    "let q = '\\''; // TODO: real after escaped quote",
+    "fn f<'a>(s: &'a str) -> &'a str { s } // TODO: real after lifetimes",
+    'let s = "// TODO: no";',
+    "let e = '\\u{1F600}'; // TODO: real after unicode escape",
+  ],
+  'a.rb': [
+    'puts "# TODO: no" # TODO: real',
+    '=begin',
+    'TODO: real paragraph inside the block',
+    '=end',
+  ],
+}
+
+/** Expected `line:marker` of each detected TODO, in detection order. */
+const EXPECTED: Record<string, string[]> = {
+  'a.ts': ['7:/', '8:/', '4:/*'],
+  'a.go': ['2:/'],
+  'a.py': ['1:#', '2:"""', "3:'''"],
+  'a.sh': ['1:#'],
+  'a.sql': ['0:--', '1:/*'],
+  'a.lua': ['2:--', '1:--[['],
+  'a.html': ['1:<!--'],
+  'a.rs': ['0:/', '1:/', '2:/', '4:/'],
+  'a.rb': ['0:#', '2:=begin'],
+}
+
+for (const [file, lines] of Object.entries(FIXTURES)) {
+  Deno.test(`detectTodos: ignores strings and literals in ${file}`, () => {
+    const { todos } = detectTodos(lines.join('\n'), commentSyntaxFor(file))
+    assertEquals(
+      todos.map((t) => `${t.start}:${t.marker.replace('//', '/')}`),
+      EXPECTED[file],
+    )
+  })
+}
+
+Deno.test('scanComments: reports columns for trailing comments', () => {
+  const content = 'a = "x" // TODO: y\n'
+  const [c] = scanComments(content, commentSyntaxFor('a.ts'))
+  assertEquals(c.start, 8)
+  assertEquals(content.slice(c.bodyStart, c.bodyEnd), ' TODO: y')
+  assertEquals(
+    detectTodos(content, commentSyntaxFor('a.ts')).todos[0].column,
+    8,
+  )
+})
@@ -0,0 +1,213 @@
+/**
+ * Lightweight lexer that finds real comments, skipping string, regex and
+ * template literal regions so TODO-like text inside them is ignored.
+ */
+import type { CommentSyntax } from './comments.ts'
+
+/**
+ * A comment found by `scanComments`. Offsets index into the scanned content.
+ */
+export type CommentToken = {
+  /** `line` for line comments, `block` for delimited comments. */
+  style: 'line' | 'block'
+  /** Line marker or block opener as written. */
+  marker: string
+  /** Block closer (blocks only). */
+  close?: string
+  /** Offset of the marker/opener. */
+  start: number
+  /** Offset just past the marker/opener. */
+  bodyStart: number
+  /** Offset of the line break (line) or closer (block); content length when unterminated. */
+  bodyEnd: number
+  /** Offset just past the comment, including a block closer. */
+  end: number
+}
+
+/** Keywords after which `/` starts a regex rather than a division. */
+const REGEX_KEYWORDS = new Set([
+  'return',
+  'typeof',
+  'instanceof',
+  'case',
+  'do',
+  'else',
+  'in',
+  'of',
+  'new',
+  'delete',
+  'void',
+  'throw',
+  'yield',
+  'await',
+])
+/** Punctuation after which `/` starts a regex rather than a division. */
+const REGEX_AFTER = '(,=:[!&|?{};+-*%<>~^'
+/** A Rust char literal: one character or escape between single quotes. */
+const CHAR_LITERAL =
+  /'(?:\\(?:x[0-9a-fA-F]{2}|u\{[0-9a-fA-F]{1,6}\}|.)|[^\\'\n])'/uy
+
+const byLength = <T>(items: T[], key: (t: T) => string) =>
+  [...items].sort((a, b) => key(b).length - key(a).length)
+
+/**
+ * Scan `content` and return its comments in document order.
+ *
+ * Block openers win over strings and line markers that share a prefix (e.g.,
+ * Lua `--[[` over `--`, Python `"""` over `"`). Single-character line markers
+ * (`#`, `;`) only start a comment at the start of a line or after whitespace,
+ * so `a#b` style tokens are left alone.
+ *
+ * @param content - File contents.
+ * @param syntax - Delimiters for the file's language.
+ */
+export function scanComments(
+  content: string,
+  syntax: CommentSyntax,
+): CommentToken[] {
+  const blocks = byLength(syntax.block, ([open]) => open)
+  const lines = byLength(syntax.line, (m) => m)
+  const strings = byLength(syntax.strings ?? [], (q) => q)
+  const out: CommentToken[] = []
+  // Brace depth at each open `${`; a `}` at that depth resumes the template.
+  const templates: number[] = []
+  let braces = 0
+  let prev = ''
+  let prevWord = ''
+  let i = 0
+
+  /** Skip a quoted literal starting at `i`; returns at its end or line break. */
+  const skipString = (quote: string, resume = false) => {
+    if (!resume) i += quote.length
+    const multiline = quote.length > 1 || quote === '`'
+    while (i < content.length) {
+      const ch = content[i]
+      if (ch === '\\') {
+        i += 2
+      } else if (content.startsWith(quote, i)) {
+        i += quote.length
+        return
+      } else if (quote === '`' && syntax.regex && content.startsWith('${', i)) {
+        i += 2
+        templates.push(braces)
+        return
+      } else if (ch === '\n' && !multiline) {
+        return
+      } else {
+        i++
+      }
+    }
+  }
+
+  /** Skip a regex literal starting at `i`, including its flags. */
+  const skipRegex = () => {
+    let inClass = false
+    i++
+    while (i < content.length && content[i] !== '\n') {
+      const ch = content[i]
+      if (ch === '\\') i += 2
+      else if (ch === '[') (inClass = true), i++
+      else if (ch === ']') (inClass = false), i++
+      else if (ch === '/' && !inClass) {
+        i++
+        while (i < content.length && /\w/.test(content[i])) i++
+        return
+      } else i++
+    }
+  }
+
+  while (i < content.length) {
+    const ch = content[i]
+
+    const block = blocks.find(([open]) => content.startsWith(open, i))
+    if (block) {
+      const [open, close] = block
+      const bodyStart = i + open.length
+      const at = content.indexOf(close, bodyStart)
+      const bodyEnd = at === -1 ? content.length : at
+      const end = at === -1 ? content.length : at + close.length
+      out.push({
+        style: 'block',
+        marker: open,
+        close,
+        start: i,
+        bodyStart,
+        bodyEnd,
+        end,
+      })
+      i = end
+      continue
+    }
+
+    const marker = lines.find((m) => content.startsWith(m, i))
+    if (marker && (marker.length > 1 || i === 0 || /\s/.test(content[i - 1]))) {
+      const nl = content.indexOf('\n', i)
+      const bodyEnd = nl === -1 ? content.length : nl
+      out.push({
+        style: 'line',
+        marker,
+        start: i,
+        bodyStart: i + marker.length,
+        bodyEnd,
+        end: bodyEnd,
+      })
+      i = bodyEnd
+      continue
+    }
+
+    if (syntax.chars && ch === "'") {
+      CHAR_LITERAL.lastIndex = i
+      if (CHAR_LITERAL.test(content)) {
+        i = CHAR_LITERAL.lastIndex
+        prev = "'"
+        prevWord = ''
+        continue
+      }
+    }
+
+    const quote = strings.find((q) => content.startsWith(q, i))
+    if (quote) {
+      skipString(quote)
+      prev = quote
+      prevWord = ''
+      continue
+    }
+
+    if (syntax.regex && ch === '/') {
+      const regexAllowed = prev === '' || REGEX_AFTER.includes(prev) ||
+        (prev === 'w' && REGEX_KEYWORDS.has(prevWord))
+      if (regexAllowed) {
+        skipRegex()
+        prev = '/'
+        prevWord = ''
+        continue
+      }
+    }
+
+    if (/[\w$]/.test(ch)) {
+      const start = i
+      while (i < content.length && /[\w$]/.test(content[i])) i++
+      prev = 'w'
+      prevWord = content.slice(start, i)
+      continue
+    }
+
+    if (ch === '{') braces++
+    if (ch === '}') {
+      if (templates.length && templates[templates.length - 1] === braces) {
+        templates.pop()
+        i++
+        skipString('`', true)
+        prev = '`'
+        continue
+      }
+      braces--
+    }
+    if (!/\s/.test(ch)) {
+      prev = ch
+      prevWord = ''
+    }
+    i++
+  }
+  return out
+}
@@ -13,10 +13,9 @@ fi
 if command -v todo-expand >/dev/null 2>&1; then
   echo "Expanding TODOs in staged files..."
   
-  # Run todo-expand on staged files
+  # Run todo-expand on staged files (rewrites the index directly, so
+  # unstaged changes are never swept into the commit)
   if todo-expand --staged; then
-    # Re-stage any modified files
-    git add -A
     echo "TODO expansion complete"
   else
     echo "TODO expansion failed - check errors above"